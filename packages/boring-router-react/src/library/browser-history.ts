@@ -102,6 +102,13 @@ export class BrowserHistory<TData = any> extends AbstractHistory<
     return `${location.pathname}${location.search}`;
   }
 
+  /**
+   * Remove the `popstate` listener added by this history.
+   */
+  dispose(): void {
+    window.removeEventListener('popstate', this.onPopState);
+  }
+
   getHRefByRef(ref: string): string {
     if (this.hash) {
       return `${this.hashPrefix}#${ref}`;
@@ -219,10 +226,10 @@ export class BrowserHistory<TData = any> extends AbstractHistory<
 
     let state = event.state as BrowserHistoryState<TData> | null;
 
-    // When using hash mode, entering a new hash directly in the browser will
-    // also trigger popstate. And in that case state is null.
+    // Entering a new hash directly in the browser (or following an in-page
+    // anchor) will also trigger popstate. And in that case state is null.
     if (!state) {
-      void this._push(this.getRefByHRef(location.href), undefined, false);
+      void this._push(this.getRefByHRef(this.url), undefined, false);
       return;
     }
 
@@ -4,7 +4,7 @@ import {
   RouteMatchSharedToParamDict,
 } from 'boring-router';
 import {observer, useLocalStore} from 'mobx-react-lite';
-import React, {HTMLAttributes, MouseEvent, ReactNode} from 'react';
+import React, {FocusEvent, HTMLAttributes, MouseEvent, ReactNode} from 'react';
 
 import {composeEventHandler} from './@utils';
 
@@ -17,6 +17,10 @@ export interface LinkProps<T extends RouteMatch | RouteBuilder>
   children: ReactNode;
   toggle?: T extends RouteMatch ? boolean : undefined;
   leave?: T extends RouteMatch ? boolean : undefined;
+  /**
+   * Whether to prefetch the target route on hover or focus.
+   */
+  prefetch?: boolean;
 }
 
 export const Link = observer(
@@ -28,7 +32,10 @@ export const Link = observer(
       toggle = false,
       // Do not provide `leave` option default value, check out its references.
       leave,
+      prefetch = false,
       onClick,
+      onMouseEnter,
+      onFocus,
       ...restProps
     } = props;
 
@@ -72,15 +79,15 @@ export const Link = observer(
                       leave === undefined ? toggle && to.$matched : leave;
 
                     if (replace) {
-                      to.$replace(params, {leave: leaveOption});
+                      void to.$replace(params, {leave: leaveOption});
                     } else {
-                      to.$push(params, {leave: leaveOption});
+                      void to.$push(params, {leave: leaveOption});
                     }
                   } else {
                     if (replace) {
-                      to.$replace();
+                      void to.$replace();
                     } else {
-                      to.$push();
+                      void to.$push();
                     }
                   }
                 },
@@ -88,13 +95,54 @@ export const Link = observer(
               true,
             );
           },
+          get composedOnMouseEnter() {
+            let {prefetch, onMouseEnter} = props;
+
+            return composeEventHandler<MouseEvent>([
+              onMouseEnter,
+              prefetch ? () => this.prefetch() : undefined,
+            ]);
+          },
+          get composedOnFocus() {
+            let {prefetch, onFocus} = props;
+
+            return composeEventHandler<FocusEvent>([
+              onFocus,
+              prefetch ? () => this.prefetch() : undefined,
+            ]);
+          },
+          prefetch(): void {
+            let {to, params} = props;
+
+            if (to instanceof RouteMatch) {
+              void to.$prefetch(params);
+            } else {
+              void to.$prefetch();
+            }
+          },
         };
       },
-      {to, params, leave, toggle, replace, onClick},
+      {
+        to,
+        params,
+        leave,
+        toggle,
+        replace,
+        prefetch,
+        onClick,
+        onMouseEnter,
+        onFocus,
+      },
     );
 
     return (
-      <a {...restProps} href={store.href} onClick={store.composedOnClick} />
+      <a
+        {...restProps}
+        href={store.href}
+        onClick={store.composedOnClick}
+        onMouseEnter={store.composedOnMouseEnter}
+        onFocus={store.composedOnFocus}
+      />
     );
   },
 );
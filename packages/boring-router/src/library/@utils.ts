@@ -1,21 +1,137 @@
+import {IParallelEncoding} from './parallel-encoding';
+import {
+  RouteArrayQuerySchema,
+  RouteQueryDeclaration,
+  RouteQueryId,
+  RouteQuerySchema,
+} from './query';
 import {GeneralParamDict, GeneralSegmentDict} from './route-match';
+import {RouteSegmentCodec} from './schema';
 
-export function isQueryIdsMatched(
-  a: string | symbol | true,
-  b: string | symbol | true,
-): boolean {
+export function isQueryIdsMatched(a: RouteQueryId, b: RouteQueryId): boolean {
   return a === true || b === true || a === b;
 }
 
+export function getQueryId(declaration: RouteQueryDeclaration): RouteQueryId {
+  return typeof declaration === 'object' ? declaration.id ?? true : declaration;
+}
+
+/**
+ * Get the key in query string of a group-scoped query, e.g., `_overlay.page`.
+ */
+export function getScopedQueryKey(
+  parallelEncoding: IParallelEncoding,
+  group: string,
+  key: string,
+): string {
+  return `${parallelEncoding.getScopedQueryKeyPrefix(group)}${key}`;
+}
+
+export type QueryValue = string | string[];
+
+export type GeneralQuerySchema =
+  | RouteQuerySchema<unknown>
+  | RouteArrayQuerySchema<unknown>;
+
+export function getLastQueryValue(value: QueryValue): string;
+export function getLastQueryValue(
+  value: QueryValue | undefined,
+): string | undefined;
+export function getLastQueryValue(
+  value: QueryValue | undefined,
+): string | undefined {
+  return Array.isArray(value) ? value[value.length - 1] : value;
+}
+
+export function parseQueryValue(
+  value: QueryValue | undefined,
+  schema: GeneralQuerySchema | undefined,
+): unknown {
+  if (!schema) {
+    return getLastQueryValue(value);
+  }
+
+  let codec = schema.codec;
+
+  if ('multiple' in schema) {
+    let values =
+      value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+    return values
+      .map(value => codec.parse(value))
+      .filter(value => value !== undefined);
+  }
+
+  let lastValue = getLastQueryValue(value);
+
+  let parsed = lastValue === undefined ? undefined : codec.parse(lastValue);
+
+  return parsed === undefined ? schema.default : parsed;
+}
+
+export function stringifyQueryValue(
+  value: unknown,
+  schema: GeneralQuerySchema | undefined,
+): QueryValue | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!schema) {
+    return String(value);
+  }
+
+  let codec = schema.codec;
+
+  if ('multiple' in schema) {
+    let values = (value as unknown[]).map(value => codec.stringify(value));
+    return values.length ? values : undefined;
+  }
+
+  let stringified = codec.stringify(value);
+
+  return isDefaultQueryValue(stringified, schema) ? undefined : stringified;
+}
+
+/**
+ * Whether a query string value equals the stringified default value of the
+ * schema, in which case it can be omitted from the ref.
+ */
+export function isDefaultQueryValue(
+  value: QueryValue | undefined,
+  schema: GeneralQuerySchema | undefined,
+): boolean {
+  if (
+    value === undefined ||
+    !schema ||
+    'multiple' in schema ||
+    schema.default === undefined
+  ) {
+    return false;
+  }
+
+  return getLastQueryValue(value) === schema.codec.stringify(schema.default);
+}
+
 export function buildPath(
   segmentDict: GeneralSegmentDict,
   paramDict: GeneralParamDict = {},
+  codecMap: Map<string, RouteSegmentCodec<unknown>> = new Map(),
 ): string {
   return (
     Object.entries(segmentDict)
       .map(([key, defaultSegment]) => {
         let param = paramDict[key];
-        let segment = typeof param === 'string' ? param : defaultSegment;
+        let codec = codecMap.get(key);
+
+        let segment =
+          param === undefined
+            ? defaultSegment
+            : codec
+            ? codec.stringify(param)
+            : typeof param === 'string'
+            ? param
+            : defaultSegment;
 
         if (typeof segment !== 'string') {
           throw new Error(`Parameter "${key}" is required`);
@@ -28,33 +144,39 @@ export function buildPath(
 }
 
 export function buildRef(
+  parallelEncoding: IParallelEncoding,
   pathMap: Map<string | undefined, string>,
-  queryMap: Map<string, string | undefined> | undefined,
+  queryMap: Map<string, QueryValue | undefined> | undefined,
+  hash = '',
 ): string {
   let primaryPath = pathMap.get(undefined) ?? '';
 
-  let pathQuery = encodeURI(
-    Array.from(pathMap)
-      .filter(([group]) => group !== undefined)
-      .map(([group, path]) => `_${group}=${path}`)
-      .join('&'),
-  );
+  let groupPathMap = new Map<string, string>();
+
+  for (let [group, path] of pathMap) {
+    if (group !== undefined) {
+      groupPathMap.set(group, path);
+    }
+  }
 
-  let normalQuery =
+  let query =
     queryMap &&
     new URLSearchParams(
-      Array.from(queryMap).filter(
-        (entry): entry is [string, string] => entry[1] !== undefined,
-      ),
-    ).toString();
+      Array.from(queryMap).reduce<string[][]>((entries, [key, value]) => {
+        if (Array.isArray(value)) {
+          entries.push(...value.map(value => [key, value]));
+        } else if (value !== undefined) {
+          entries.push([key, value]);
+        }
 
-  let query = pathQuery
-    ? normalQuery
-      ? `${pathQuery}&${normalQuery}`
-      : pathQuery
-    : normalQuery;
+        return entries;
+      }, []),
+    ).toString();
 
-  return `${primaryPath}${query ? `?${query}` : ''}`;
+  return parallelEncoding.stringify(
+    `${primaryPath}${query ? `?${query}` : ''}${hash === '#' ? '' : hash}`,
+    groupPathMap,
+  );
 }
 
 export interface ParseRefResult {
@@ -68,6 +190,13 @@ export function parseRef(ref: string): ParseRefResult {
   let search = '';
   let hash = '';
 
+  let hashIndex = pathname.indexOf('#');
+
+  if (hashIndex !== -1) {
+    hash = pathname.substr(hashIndex);
+    pathname = pathname.substr(0, hashIndex);
+  }
+
   let searchIndex = pathname.indexOf('?');
 
   if (searchIndex !== -1) {
@@ -82,15 +211,51 @@ export function parseRef(ref: string): ParseRefResult {
   };
 }
 
-export function parseSearch(search: string): Map<string, string> {
+/**
+ * Parse search string into a map, values of repeated keys are collected into
+ * an array.
+ */
+export function parseSearch(search: string): Map<string, QueryValue> {
   let searchParams = new URLSearchParams(search);
 
-  return new Map(searchParams);
+  let queryMap = new Map<string, QueryValue>();
+
+  for (let [key, value] of searchParams) {
+    let existingValue = queryMap.get(key);
+
+    queryMap.set(
+      key,
+      existingValue === undefined
+        ? value
+        : [
+            ...(Array.isArray(existingValue) ? existingValue : [existingValue]),
+            value,
+          ],
+    );
+  }
+
+  return queryMap;
 }
 
-export function testPathPrefix(path: string, prefix: string): boolean {
+export function normalizeHash(hash: string): string {
+  if (!hash || hash === '#') {
+    return '';
+  }
+
+  return hash.startsWith('#') ? hash : `#${hash}`;
+}
+
+export function testPathPrefix(
+  path: string,
+  prefix: string,
+  caseInsensitive = false,
+): boolean {
+  let pathPrefix = path.slice(0, prefix.length);
+
   return (
-    path.startsWith(prefix) &&
+    (caseInsensitive
+      ? pathPrefix.toLowerCase() === prefix.toLowerCase()
+      : pathPrefix === prefix) &&
     (path.length === prefix.length || path[prefix.length] === '/')
   );
 }
@@ -102,10 +267,12 @@ export type ToleratedReturnType<
   : TOriginalReturnType | undefined;
 
 export function tolerate<T extends (...args: any[]) => any>(
+  onError: (error: unknown) => void,
   fn: T,
   ...args: Parameters<T>
 ): ToleratedReturnType<ReturnType<T>>;
 export function tolerate(
+  onError: (error: unknown) => void,
   fn: (...args: any[]) => any,
   ...args: unknown[]
 ): unknown {
@@ -114,7 +281,7 @@ export function tolerate(
   try {
     ret = fn(...args);
   } catch (error) {
-    console.error(error);
+    onError(error);
     return undefined;
   }
 
@@ -123,6 +290,6 @@ export function tolerate(
   }
 
   return ret.catch(error => {
-    console.error(error);
+    onError(error);
   });
 }
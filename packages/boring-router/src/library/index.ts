@@ -3,3 +3,7 @@ export * from './router';
 export * from './schema';
 export * from './history';
 export * from './route-builder';
+export * from './query';
+export * from './sitemap';
+export * from './parallel-encoding';
+export * from './route-group-template';
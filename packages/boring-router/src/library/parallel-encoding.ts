@@ -0,0 +1,283 @@
+export interface ParallelEncodingParseResult {
+  /**
+   * Ref with paths of parallel groups removed.
+   */
+  ref: string;
+  /**
+   * Paths of parallel groups found in the ref, keyed by group name.
+   */
+  groupPathMap: Map<string, string>;
+}
+
+/**
+ * Strategy of how paths of parallel route groups are carried in a ref.
+ */
+export interface IParallelEncoding {
+  /**
+   * Extract paths of parallel groups from a ref, `isGroup` tells whether a
+   * name is a valid group (including instances of group templates).
+   */
+  parse(
+    ref: string,
+    isGroup: (name: string) => boolean,
+  ): ParallelEncodingParseResult;
+  /**
+   * Add paths of parallel groups to a ref without them.
+   */
+  stringify(ref: string, groupPathMap: Map<string, string>): string;
+  /**
+   * Get the prefix of keys in query string of queries scoped to a group, e.g.,
+   * `_overlay.` of `_overlay.page`.
+   */
+  getScopedQueryKeyPrefix(group: string): string;
+}
+
+export interface QueryParallelEncodingOptions {
+  /**
+   * Prefix of the query keys, defaults to `'_'`, e.g., `?_overlay=/task/123`.
+   * Keys of group-scoped queries share the prefix, e.g., `?_overlay.page=2`.
+   */
+  prefix?: string;
+}
+
+export interface HashParallelEncodingOptions {
+  /**
+   * Prefix of the entry keys in hash, defaults to `''`, e.g.,
+   * `#overlay=/task/123`. Keys of group-scoped queries (in query string) share
+   * the prefix, e.g., `?overlay.page=2`.
+   */
+  prefix?: string;
+}
+
+const MATRIX_SEGMENT_REGEX = /\/\(([^()]*)\)$/;
+
+export const parallelEncoding = {
+  /**
+   * Carry group paths as query strings, e.g.,
+   * `/workbench?_overlay=/task/123`. This is the default.
+   */
+  query({prefix = '_'}: QueryParallelEncodingOptions = {}): IParallelEncoding {
+    return {
+      parse(ref, isGroup) {
+        let parts = splitRef(ref);
+
+        let [search, groupPathMap] = extractEntries(
+          parts.search,
+          prefix,
+          isGroup,
+        );
+
+        return {ref: joinRef({...parts, search}), groupPathMap};
+      },
+      stringify(ref, groupPathMap) {
+        let parts = splitRef(ref);
+
+        return joinRef({
+          ...parts,
+          search: joinEntries(
+            stringifyEntries(prefix, groupPathMap),
+            parts.search,
+          ),
+        });
+      },
+      getScopedQueryKeyPrefix(group) {
+        return `${prefix}${group}.`;
+      },
+    };
+  },
+  /**
+   * Carry group paths as matrix-style path segments appended to the primary
+   * path, e.g., `/workbench/(overlay:task/123)`. Keys of group-scoped queries
+   * are prefixed with the group, e.g., `?overlay.page=2`.
+   */
+  matrix(): IParallelEncoding {
+    return {
+      parse(ref, isGroup) {
+        let parts = splitRef(ref);
+
+        let path = parts.path;
+        let groupPathEntries: [string, string][] = [];
+
+        while (true) {
+          let result = MATRIX_SEGMENT_REGEX.exec(path);
+
+          let groupAndPath = result && splitMatrixSegment(result[1], isGroup);
+
+          if (!result || !groupAndPath) {
+            break;
+          }
+
+          let [segment] = result;
+          let [group, groupPath] = groupAndPath;
+
+          if (groupPath) {
+            groupPathEntries.unshift([group, `/${groupPath}`]);
+          }
+
+          path = path.slice(0, -segment.length);
+        }
+
+        return {
+          ref: joinRef({...parts, path}),
+          groupPathMap: new Map(groupPathEntries),
+        };
+      },
+      stringify(ref, groupPathMap) {
+        if (!groupPathMap.size) {
+          return ref;
+        }
+
+        let parts = splitRef(ref);
+
+        let segments = Array.from(groupPathMap)
+          .map(([group, path]) => `/(${group}:${path.replace(/^\//, '')})`)
+          .join('');
+
+        return joinRef({
+          ...parts,
+          path: `${parts.path.replace(/\/$/, '')}${segments}`,
+        });
+      },
+      getScopedQueryKeyPrefix(group) {
+        return `${group}.`;
+      },
+    };
+  },
+  /**
+   * Carry group paths in the hash, e.g., `/workbench#overlay=/task/123`. Other
+   * content of the hash is preserved, e.g., `#top&overlay=/task/123`.
+   */
+  hash({prefix = ''}: HashParallelEncodingOptions = {}): IParallelEncoding {
+    return {
+      parse(ref, isGroup) {
+        let parts = splitRef(ref);
+
+        let [hash, groupPathMap] = extractEntries(parts.hash, prefix, isGroup);
+
+        return {ref: joinRef({...parts, hash}), groupPathMap};
+      },
+      stringify(ref, groupPathMap) {
+        let parts = splitRef(ref);
+
+        return joinRef({
+          ...parts,
+          hash: joinEntries(parts.hash, stringifyEntries(prefix, groupPathMap)),
+        });
+      },
+      getScopedQueryKeyPrefix(group) {
+        return `${prefix}${group}.`;
+      },
+    };
+  },
+};
+
+interface SplitRefResult {
+  path: string;
+  search: string;
+  hash: string;
+}
+
+/**
+ * Split a ref into path, search (without "?") and hash (without "#").
+ */
+function splitRef(ref: string): SplitRefResult {
+  let hash = '';
+  let search = '';
+
+  let hashIndex = ref.indexOf('#');
+
+  if (hashIndex >= 0) {
+    hash = ref.slice(hashIndex + 1);
+    ref = ref.slice(0, hashIndex);
+  }
+
+  let searchIndex = ref.indexOf('?');
+
+  if (searchIndex >= 0) {
+    search = ref.slice(searchIndex + 1);
+    ref = ref.slice(0, searchIndex);
+  }
+
+  return {path: ref, search, hash};
+}
+
+function joinRef({path, search, hash}: SplitRefResult): string {
+  return `${path}${search ? `?${search}` : ''}${hash ? `#${hash}` : ''}`;
+}
+
+/**
+ * Extract entries with keys of groups from `&` separated entries, e.g., query
+ * string. Raw text of other entries is kept as is.
+ */
+function extractEntries(
+  text: string,
+  prefix: string,
+  isGroup: (name: string) => boolean,
+): [string, Map<string, string>] {
+  let groupPathMap = new Map<string, string>();
+  let restEntries: string[] = [];
+
+  for (let entry of text ? text.split('&') : []) {
+    let [pair] = Array.from(new URLSearchParams(entry));
+
+    let group =
+      pair && pair[0].startsWith(prefix)
+        ? pair[0].slice(prefix.length)
+        : undefined;
+
+    if (group === undefined || !isGroup(group)) {
+      restEntries.push(entry);
+      continue;
+    }
+
+    let path = pair[1];
+
+    // The last one wins if a group appears multiple times.
+    if (path) {
+      groupPathMap.set(group, path);
+    } else {
+      groupPathMap.delete(group);
+    }
+  }
+
+  return [restEntries.join('&'), groupPathMap];
+}
+
+function stringifyEntries(
+  prefix: string,
+  groupPathMap: Map<string, string>,
+): string {
+  return encodeURI(
+    Array.from(groupPathMap)
+      .map(([group, path]) => `${prefix}${group}=${path}`)
+      .join('&'),
+  );
+}
+
+function joinEntries(...texts: string[]): string {
+  return texts.filter(text => !!text).join('&');
+}
+
+/**
+ * Split content of a matrix-style segment (e.g., `overlay:task/123`) into
+ * group and path. Group names could contain ":" (e.g., `panel:1`), so the
+ * first valid group wins.
+ */
+function splitMatrixSegment(
+  content: string,
+  isGroup: (name: string) => boolean,
+): [string, string] | undefined {
+  for (
+    let index = content.indexOf(':');
+    index >= 0;
+    index = content.indexOf(':', index + 1)
+  ) {
+    let group = content.slice(0, index);
+
+    if (isGroup(group)) {
+      return [group, content.slice(index + 1)];
+    }
+  }
+
+  return undefined;
+}
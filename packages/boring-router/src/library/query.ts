@@ -0,0 +1,227 @@
+export type RouteQueryId = string | symbol | true;
+
+export interface RouteQueryCodec<T> {
+  /**
+   * Parse a query string value, return `undefined` if the value is invalid.
+   */
+  parse(value: string): T | undefined;
+  stringify(value: T): string;
+}
+
+export interface RouteQueryOptions<T> {
+  /**
+   * Query ID used for query string preservation, defaults to `true`.
+   */
+  id?: RouteQueryId;
+  /**
+   * Whether this query is private to the parallel group of the route, which
+   * is namespaced in query string (e.g., `_overlay.page`). Does not apply to
+   * primary routes.
+   */
+  scoped?: boolean;
+  /**
+   * Value to use if the query string is absent or invalid.
+   */
+  default?: T;
+}
+
+export interface RouteQuerySchema<T> extends RouteQueryOptions<T> {
+  codec: RouteQueryCodec<T>;
+}
+
+export type RouteArrayQueryOptions = Pick<
+  RouteQueryOptions<unknown>,
+  'id' | 'scoped'
+>;
+
+/**
+ * Schema of a query that can be repeated in query string (e.g.,
+ * `?tag=a&tag=b`), the value is an array of all valid values.
+ */
+export interface RouteArrayQuerySchema<T> extends RouteArrayQueryOptions {
+  codec: RouteQueryCodec<T>;
+  multiple: true;
+}
+
+export type TypedRouteQuerySchema<T, TOptions> = RouteQuerySchema<T> &
+  Pick<TOptions, Extract<keyof TOptions, 'default'>>;
+
+/**
+ * Loose shape of typed query schemas for `$query` declarations, value type is
+ * intentionally omitted so that it does not interfere with type inference of
+ * `query.enum()` etc.
+ */
+export interface RouteQuerySchemaDeclaration {
+  id?: RouteQueryId;
+  scoped?: boolean;
+  codec: object;
+}
+
+/**
+ * Query declaration in `$query` schema, either a query ID or a typed query
+ * schema created by `query.number()`, `query.boolean()` etc.
+ */
+export type RouteQueryDeclaration = RouteQueryId | RouteQuerySchemaDeclaration;
+
+export type RouteQueryValueType<
+  TQueryDeclaration
+> = TQueryDeclaration extends RouteArrayQuerySchema<infer T>
+  ? T[]
+  : TQueryDeclaration extends RouteQuerySchema<infer T>
+  ? TQueryDeclaration extends {default: unknown}
+    ? T
+    : T | undefined
+  : string | undefined;
+
+export type RouteQueryDictType<TQuerySchemaDict> = {
+  [TKey in Extract<keyof TQuerySchemaDict, string>]: RouteQueryValueType<
+    TQuerySchemaDict[TKey]
+  >;
+};
+
+const STRING_CODEC: RouteQueryCodec<string> = {
+  parse(value) {
+    return value;
+  },
+  stringify(value) {
+    return value;
+  },
+};
+
+const NUMBER_CODEC: RouteQueryCodec<number> = {
+  parse(value) {
+    let number = Number(value);
+    return value.trim() && isFinite(number) ? number : undefined;
+  },
+  stringify(value) {
+    return String(value);
+  },
+};
+
+const BOOLEAN_CODEC: RouteQueryCodec<boolean> = {
+  parse(value) {
+    switch (value) {
+      case 'true':
+      case '1':
+      case 'on':
+        return true;
+      case 'false':
+      case '0':
+      case 'off':
+        return false;
+      default:
+        return undefined;
+    }
+  },
+  stringify(value) {
+    return String(value);
+  },
+};
+
+const DATE_CODEC: RouteQueryCodec<Date> = {
+  parse(value) {
+    let date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  },
+  stringify(value) {
+    return value.toISOString();
+  },
+};
+
+const JSON_CODEC: RouteQueryCodec<unknown> = {
+  parse(value) {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return undefined;
+    }
+  },
+  stringify(value) {
+    return JSON.stringify(value);
+  },
+};
+
+function createEnumCodec<T extends string>(
+  values: readonly T[],
+): RouteQueryCodec<T> {
+  return {
+    parse(value) {
+      return values.includes(value as T) ? (value as T) : undefined;
+    },
+    stringify(value) {
+      return value;
+    },
+  };
+}
+
+function createQuerySchema<T, TOptions extends RouteQueryOptions<T>>(
+  codec: RouteQueryCodec<T>,
+  options: TOptions | undefined,
+): TypedRouteQuerySchema<T, TOptions> {
+  return {
+    ...options,
+    codec,
+  } as TypedRouteQuerySchema<T, TOptions>;
+}
+
+export const query = {
+  /**
+   * Create a string query schema, useful for specifying a default value.
+   */
+  string<TOptions extends RouteQueryOptions<string> = {}>(
+    options?: TOptions,
+  ): TypedRouteQuerySchema<string, TOptions> {
+    return createQuerySchema(STRING_CODEC, options);
+  },
+  number<TOptions extends RouteQueryOptions<number> = {}>(
+    options?: TOptions,
+  ): TypedRouteQuerySchema<number, TOptions> {
+    return createQuerySchema(NUMBER_CODEC, options);
+  },
+  boolean<TOptions extends RouteQueryOptions<boolean> = {}>(
+    options?: TOptions,
+  ): TypedRouteQuerySchema<boolean, TOptions> {
+    return createQuerySchema(BOOLEAN_CODEC, options);
+  },
+  date<TOptions extends RouteQueryOptions<Date> = {}>(
+    options?: TOptions,
+  ): TypedRouteQuerySchema<Date, TOptions> {
+    return createQuerySchema(DATE_CODEC, options);
+  },
+  enum<TValue extends string, TOptions extends RouteQueryOptions<TValue> = {}>(
+    values: readonly TValue[],
+    options?: TOptions,
+  ): TypedRouteQuerySchema<TValue, TOptions> {
+    return createQuerySchema(createEnumCodec(values), options);
+  },
+  json<T, TOptions extends RouteQueryOptions<T> = {}>(
+    options?: TOptions,
+  ): TypedRouteQuerySchema<T, TOptions> {
+    return createQuerySchema(JSON_CODEC as RouteQueryCodec<T>, options);
+  },
+  /**
+   * Create a repeatable query schema, values are parsed with the codec of
+   * `item` if specified.
+   */
+  array<T = string>(
+    item?: RouteQuerySchema<T>,
+    options?: RouteArrayQueryOptions,
+  ): RouteArrayQuerySchema<T> {
+    return {
+      ...options,
+      codec: item
+        ? item.codec
+        : ((STRING_CODEC as unknown) as RouteQueryCodec<T>),
+      multiple: true,
+    };
+  },
+  /**
+   * Create a typed query schema with a custom codec.
+   */
+  custom<T, TOptions extends RouteQueryOptions<T> = {}>(
+    codec: RouteQueryCodec<T>,
+    options?: TOptions,
+  ): TypedRouteQuerySchema<T, TOptions> {
+    return createQuerySchema(codec, options);
+  },
+};
@@ -1,20 +1,30 @@
 import _ from 'lodash';
 import {EmptyObjectPatch} from 'tslang';
 
-import {buildPath, buildRef, isQueryIdsMatched, parseSearch} from './@utils';
+import {
+  QueryValue,
+  buildPath,
+  buildRef,
+  isDefaultQueryValue,
+  isQueryIdsMatched,
+  normalizeHash,
+  parseSearch,
+  stringifyQueryValue,
+} from './@utils';
+import {IParallelEncoding} from './parallel-encoding';
 import {
   GeneralParamDict,
   RouteMatchShared,
   RouteMatchSharedToParamDict,
 } from './route-match';
-import {Router, RouterNavigateOptions} from './router';
+import {Router, RouterNavigateOptions, RouterNavigateResult} from './router';
 
 type BuildingPart = RouteBuilderBuildingPart | StringBuildingPart;
 
 interface StringBuildingPart {
   route?: RouteMatchShared;
   path: string;
-  query: Map<string, string>;
+  query: Map<string, QueryValue>;
 }
 
 export interface RouteBuilderBuildingPart {
@@ -30,6 +40,7 @@ export class RouteBuilder<TGroupName extends string = string> {
     private sourceType: RouteBuilderSourceType,
     private buildingParts: (RouteBuilderBuildingPart | string)[] = [],
     private leavingGroupSet = new Set<string>(),
+    private hash?: string,
   ) {}
 
   /**
@@ -61,6 +72,7 @@ export class RouteBuilder<TGroupName extends string = string> {
       this.sourceType,
       [...this.buildingParts, buildingPart],
       this.leavingGroupSet,
+      this.hash,
     );
   }
 
@@ -76,6 +88,21 @@ export class RouteBuilder<TGroupName extends string = string> {
       this.sourceType,
       this.buildingParts,
       leavingGroupSet,
+      this.hash,
+    );
+  }
+
+  /**
+   * Set hash (fragment) of the ref, with or without the leading "#". An empty
+   * string removes the hash.
+   */
+  $hash(hash: string): RouteBuilder<TGroupName> {
+    return new RouteBuilder(
+      this.router,
+      this.sourceType,
+      this.buildingParts,
+      this.leavingGroupSet,
+      normalizeHash(hash),
     );
   }
 
@@ -87,6 +114,11 @@ export class RouteBuilder<TGroupName extends string = string> {
 
     let groupToBuildingPartMap = new Map<string | undefined, BuildingPart>();
 
+    let hash = this.hash;
+
+    // Preserve the hash only if the ref is not changed by building parts.
+    let sourceHashPreserved = hash === undefined && !this.buildingParts.length;
+
     if (sourceType !== 'none') {
       for (let [group, route] of router._groupToRouteMatchMap) {
         if (group && leavingGroupSet.has(group)) {
@@ -95,6 +127,10 @@ export class RouteBuilder<TGroupName extends string = string> {
 
         let sourceRoute = sourceType === 'current' ? route : route.$next;
 
+        if (sourceHashPreserved) {
+          hash = sourceRoute.$hash;
+        }
+
         if (!sourceRoute.$matched) {
           continue;
         }
@@ -107,11 +143,20 @@ export class RouteBuilder<TGroupName extends string = string> {
 
     for (let buildingPart of this.buildingParts) {
       if (typeof buildingPart === 'string') {
-        let {groups, query: buildingPartQueryMap} = parseStringBuildingPart(
+        let {
+          groups,
+          query: buildingPartQueryMap,
+          hash: buildingPartHash,
+        } = parseStringBuildingPart(
           buildingPart,
-          router.$groups,
+          group => router._isGroup(group),
+          router._parallelEncoding,
         );
 
+        if (buildingPartHash !== undefined && this.hash === undefined) {
+          hash = buildingPartHash;
+        }
+
         for (let {name: group, path} of groups) {
           if (group && leavingGroupSet.has(group)) {
             continue;
@@ -139,7 +184,7 @@ export class RouteBuilder<TGroupName extends string = string> {
 
     let pathMap = new Map<string | undefined, string>();
 
-    let queryMap = new Map<string, string | undefined>();
+    let queryMap = new Map<string, QueryValue | undefined>();
 
     for (let [group, buildingPart] of groupToBuildingPartMap) {
       if ('path' in buildingPart) {
@@ -151,7 +196,7 @@ export class RouteBuilder<TGroupName extends string = string> {
           buildingPartQueryMap = new Map([
             ...Array.from(route._source.queryMap).map(([key, {value}]): [
               string,
-              string,
+              QueryValue,
             ] => [key, value]),
             ...buildingPartQueryMap,
           ]);
@@ -182,24 +227,42 @@ export class RouteBuilder<TGroupName extends string = string> {
           ),
         );
 
-        pathMap.set(group, buildPath(segmentDict, paramDict));
+        pathMap.set(
+          group,
+          buildPath(segmentDict, paramDict, route._segmentKeyToCodecMap),
+        );
 
         let {queryMap: sourceQueryMap} = route._source;
 
         let queryKeyToIdMap = route._queryKeyToIdMap;
+        let queryKeyToRefKeyMap = route._queryKeyToRefKeyMap;
 
-        for (let [key, {id, value}] of sourceQueryMap) {
-          let routeQueryId = queryKeyToIdMap.get(key);
+        let refKeyToQueryKeyMap = new Map(
+          Array.from(queryKeyToRefKeyMap).map(([key, refKey]): [
+            string,
+            string,
+          ] => [refKey, key]),
+        );
+
+        for (let [refKey, {id, value}] of sourceQueryMap) {
+          let key = refKeyToQueryKeyMap.get(refKey);
 
           if (
-            queryMap.has(key) ||
-            routeQueryId === undefined ||
-            !isQueryIdsMatched(routeQueryId, id)
+            key === undefined ||
+            queryMap.has(refKey) ||
+            !isQueryIdsMatched(queryKeyToIdMap.get(key)!, id)
           ) {
             continue;
           }
 
-          queryMap.set(key, value);
+          // Omit default values to keep the ref canonical, `undefined` is set
+          // to override route queries iterated later as well.
+          queryMap.set(
+            refKey,
+            isDefaultQueryValue(value, route._queryKeyToSchemaMap.get(key))
+              ? undefined
+              : value,
+          );
         }
 
         let restParamKeys = _.difference(
@@ -217,12 +280,29 @@ export class RouteBuilder<TGroupName extends string = string> {
           // Note a given param could be `undefined` here to remove the query.
           // The reason why we use `undefined` instead of deleting the key is
           // to ensure this overrides route queries iterated later.
-          queryMap.set(key, paramDict[key]);
+          queryMap.set(
+            queryKeyToRefKeyMap.get(key)!,
+            stringifyQueryValue(
+              paramDict[key],
+              route._queryKeyToSchemaMap.get(key),
+            ),
+          );
         }
       }
     }
 
-    return buildRef(pathMap, queryMap);
+    // Drop queries scoped to the groups left.
+    for (let group of leavingGroupSet) {
+      let prefix = router._parallelEncoding.getScopedQueryKeyPrefix(group);
+
+      for (let key of Array.from(queryMap.keys())) {
+        if (key.startsWith(prefix)) {
+          queryMap.delete(key);
+        }
+      }
+    }
+
+    return buildRef(router._parallelEncoding, pathMap, queryMap, hash);
   }
 
   $href(): string {
@@ -235,20 +315,28 @@ export class RouteBuilder<TGroupName extends string = string> {
     return this.router._history.getHRefByRef(ref);
   }
 
+  /**
+   * Prefetch routes of `this.$ref()` without navigating, see
+   * `RouteMatch.prototype.$prefetch()`.
+   */
+  $prefetch(): Promise<void> {
+    return this.router._prefetch(this.$ref());
+  }
+
   /**
    * Perform a `history.push()` with `this.$ref()`.
    */
-  $push(options?: RouterNavigateOptions): void {
+  $push(options?: RouterNavigateOptions): Promise<RouterNavigateResult> {
     let ref = this.$ref();
-    this.router._push(ref, options);
+    return this.router._push(ref, options);
   }
 
   /**
    * Perform a `history.replace()` with `this.$ref()`.
    */
-  $replace(options?: RouterNavigateOptions): void {
+  $replace(options?: RouterNavigateOptions): Promise<RouterNavigateResult> {
     let ref = this.$ref();
-    this.router._replace(ref, options);
+    return this.router._replace(ref, options);
   }
 }
 
@@ -259,17 +347,32 @@ interface ParsedStringBuildingPartGroup {
 
 interface ParsedStringBuildingPart {
   groups: ParsedStringBuildingPartGroup[];
-  query: Map<string, string>;
+  query: Map<string, QueryValue>;
+  hash: string | undefined;
 }
 
 function parseStringBuildingPart(
   part: string,
-  groups: string[],
+  isGroup: (name: string) => boolean,
+  parallelEncoding: IParallelEncoding,
 ): ParsedStringBuildingPart {
+  let {ref, groupPathMap} = parallelEncoding.parse(part, isGroup);
+
+  part = ref;
+
+  let hashIndex = part.indexOf('#');
+
+  let hash: string | undefined;
+
+  if (hashIndex >= 0) {
+    hash = normalizeHash(part.slice(hashIndex));
+    part = part.slice(0, hashIndex);
+  }
+
   let searchIndex = part.indexOf('?');
 
   let primaryPath: string | undefined;
-  let queryMap: Map<string, string>;
+  let queryMap: Map<string, QueryValue>;
 
   if (searchIndex >= 0) {
     primaryPath = part.slice(0, searchIndex);
@@ -288,23 +391,16 @@ function parseStringBuildingPart(
     });
   }
 
-  if (queryMap) {
-    for (let group of groups) {
-      let key = `_${group}`;
-
-      if (queryMap.has(key)) {
-        buildingPartGroups.push({
-          name: group,
-          path: queryMap.get(key)!,
-        });
-
-        queryMap.delete(key);
-      }
-    }
+  for (let [group, path] of groupPathMap) {
+    buildingPartGroups.push({
+      name: group,
+      path,
+    });
   }
 
   return {
     groups: buildingPartGroups,
     query: queryMap,
+    hash,
   };
 }
@@ -0,0 +1,41 @@
+import {RouteMatch} from './route-match';
+import {Router} from './router';
+
+/**
+ * Template of parallel route groups created by `Router.prototype.$template()`,
+ * instances of which are groups named `<template>:<id>` (e.g., `panel:1`).
+ */
+export class RouteGroupTemplate<TRouteMatch extends RouteMatch = RouteMatch> {
+  constructor(
+    /**
+     * Name of this template.
+     */
+    readonly $name: string,
+    private router: Router,
+  ) {}
+
+  /**
+   * A reactive value of IDs of instances currently matched, in the order of
+   * creation.
+   */
+  get $ids(): string[] {
+    return this.router._getGroupInstanceIds(this.$name);
+  }
+
+  /**
+   * Root routes of instances currently matched.
+   */
+  get $instances(): TRouteMatch[] {
+    return this.$ids.map(id => this.$instance(id));
+  }
+
+  /**
+   * Get the root route of an instance, which is created if it does not exist
+   * yet, e.g., for building refs. It is not added to the groups of the router
+   * until a navigation to a ref with it is committed, and is disposed and
+   * removed once left.
+   */
+  $instance(id: string): TRouteMatch {
+    return this.router._instantiateGroup(this.$name, id) as TRouteMatch;
+  }
+}
@@ -1,16 +1,24 @@
 import {computed} from 'mobx';
 import {Dict, EmptyObjectPatch} from 'tslang';
 
-import {isQueryIdsMatched} from '../@utils';
+import {
+  GeneralQuerySchema,
+  getQueryId,
+  getScopedQueryKey,
+  isQueryIdsMatched,
+  parseQueryValue,
+} from '../@utils';
 import {IHistory} from '../history';
+import {RouteQueryDeclaration, RouteQueryId} from '../query';
 import {RouteBuilder} from '../route-builder';
-import {Router, RouterNavigateOptions} from '../router';
+import {Router, RouterNavigateOptions, RouterNavigateResult} from '../router';
+import {RouteSegmentCodec} from '../schema';
 
-import {RouteMatchEntry, RouteSource} from './route-match';
+import {RouteMatchEntry, RouteSource, RouteSourceQuery} from './route-match';
 
 export type GeneralSegmentDict = Dict<string | undefined>;
-export type GeneralQueryDict = Dict<string | undefined>;
-export type GeneralParamDict = Dict<string | undefined>;
+export type GeneralQueryDict = Dict<unknown>;
+export type GeneralParamDict = Dict<unknown>;
 
 export type RouteMatchSharedToParamDict<
   TRouteMatchShared
@@ -35,8 +43,13 @@ export interface RouteMatchNavigateOptions<TGroupName extends string>
 
 export interface RouteMatchSharedOptions {
   match: string | RegExp;
-  query: Map<string, string | symbol | true>;
+  query: Map<string, RouteQueryDeclaration>;
   group: string | undefined;
+  /**
+   * Key of the segment in params, defaults to the name of the route.
+   */
+  segmentKey?: string;
+  codec?: RouteSegmentCodec<unknown>;
 }
 
 export abstract class RouteMatchShared<
@@ -66,7 +79,32 @@ export abstract class RouteMatchShared<
   readonly _source: RouteSource;
 
   /** @internal */
-  readonly _queryKeyToIdMap: Map<string, string | symbol | true>;
+  readonly _queryKeyToIdMap: Map<string, RouteQueryId>;
+
+  /**
+   * Keys of queries in the ref, keyed by the keys in params. Keys of
+   * group-scoped queries are namespaced by the group.
+   * @internal
+   */
+  readonly _queryKeyToRefKeyMap: Map<string, string>;
+
+  /**
+   * Similar to `_queryKeyToIdMap`, but keyed by the keys in the ref.
+   * @internal
+   */
+  readonly _refQueryKeyToIdMap: Map<string, RouteQueryId>;
+
+  /**
+   * Keys of queries declared by this route itself.
+   * @internal
+   */
+  readonly _queryKeys: string[];
+
+  /** @internal */
+  readonly _queryKeyToSchemaMap: Map<string, GeneralQuerySchema>;
+
+  /** @internal */
+  readonly _segmentKeyToCodecMap: Map<string, RouteSegmentCodec<unknown>>;
 
   /** @internal */
   _children: this[] | undefined;
@@ -77,13 +115,19 @@ export abstract class RouteMatchShared<
   /** @internal */
   protected _matchPattern: string | RegExp;
 
+  /** @internal */
+  protected _segmentKey: string;
+
+  /** @internal */
+  readonly _codec: RouteSegmentCodec<unknown> | undefined;
+
   constructor(
     name: string,
     router: Router<TGroupName>,
     source: RouteSource,
     parent: RouteMatchShared | undefined,
     history: IHistory,
-    {match, query, group}: RouteMatchSharedOptions,
+    {match, query, group, segmentKey = name, codec}: RouteMatchSharedOptions,
   ) {
     this.$name = name;
     this.$group = group as TSpecificGroupName;
@@ -99,11 +143,60 @@ export abstract class RouteMatchShared<
     }
 
     this._matchPattern = match;
+    this._segmentKey = segmentKey;
+    this._codec = codec;
+
+    let segmentKeyToCodecMap = new Map(parent?._segmentKeyToCodecMap ?? []);
+
+    if (codec) {
+      segmentKeyToCodecMap.set(segmentKey, codec);
+    }
+
+    this._segmentKeyToCodecMap = segmentKeyToCodecMap;
+
+    this._queryKeys = Array.from(query.keys());
 
     this._queryKeyToIdMap = new Map([
       ...(parent?._queryKeyToIdMap ?? []),
-      ...query,
+      ...Array.from(query).map(([key, declaration]): [string, RouteQueryId] => [
+        key,
+        getQueryId(declaration),
+      ]),
     ]);
+
+    let queryKeyToRefKeyMap = new Map(parent?._queryKeyToRefKeyMap ?? []);
+
+    for (let [key, declaration] of query) {
+      let scoped = typeof declaration === 'object' && declaration.scoped;
+
+      queryKeyToRefKeyMap.set(
+        key,
+        scoped && group !== undefined
+          ? getScopedQueryKey(router._parallelEncoding, group, key)
+          : key,
+      );
+    }
+
+    this._queryKeyToRefKeyMap = queryKeyToRefKeyMap;
+
+    this._refQueryKeyToIdMap = new Map(
+      Array.from(this._queryKeyToIdMap).map(([key, id]): [
+        string,
+        RouteQueryId,
+      ] => [queryKeyToRefKeyMap.get(key)!, id]),
+    );
+
+    let queryKeyToSchemaMap = new Map(parent?._queryKeyToSchemaMap ?? []);
+
+    for (let [key, declaration] of query) {
+      if (typeof declaration === 'object') {
+        queryKeyToSchemaMap.set(key, declaration as GeneralQuerySchema);
+      } else {
+        queryKeyToSchemaMap.delete(key);
+      }
+    }
+
+    this._queryKeyToSchemaMap = queryKeyToSchemaMap;
   }
 
   /**
@@ -117,6 +210,14 @@ export abstract class RouteMatchShared<
     } as TParamDict;
   }
 
+  /**
+   * Hash (fragment) of the ref including the leading "#", or an empty string
+   * if absent.
+   */
+  get $hash(): string {
+    return this._source.hash;
+  }
+
   /**
    * A reactive value indicates whether this route is exactly matched.
    */
@@ -163,22 +264,13 @@ export abstract class RouteMatchShared<
 
   /** @internal */
   @computed
-  protected get _paramSegments(): GeneralSegmentDict {
+  protected get _paramSegments(): GeneralParamDict {
     let parent = this.$parent;
     let upperSegmentDict = parent && parent._paramSegments;
 
-    let matchPattern = this._matchPattern;
-    let segment = this._segment;
-
-    if (!(matchPattern instanceof RegExp)) {
-      return {
-        ...upperSegmentDict,
-      };
-    }
-
     return {
       ...upperSegmentDict,
-      [this.$name]: segment,
+      ...this._parseSegment(this._segment),
     };
   }
 
@@ -188,15 +280,15 @@ export abstract class RouteMatchShared<
     let parent = this.$parent;
     let upperSegmentDict = parent && parent._pathSegments;
 
-    let name = this.$name;
+    let key = this._segmentKey;
 
     let matchPattern = this._matchPattern;
     let segment = this._segment;
 
     return {
       ...upperSegmentDict,
-      ...(name
-        ? {[name]: typeof matchPattern === 'string' ? matchPattern : segment}
+      ...(key
+        ? {[key]: typeof matchPattern === 'string' ? matchPattern : segment}
         : undefined),
     };
   }
@@ -211,19 +303,7 @@ export abstract class RouteMatchShared<
   /** @internal */
   @computed
   protected get _query(): GeneralQueryDict | undefined {
-    let sourceQueryMap = this._source.queryMap;
-
-    return Array.from(this._queryKeyToIdMap).reduce((dict, [key, id]) => {
-      let sourceQuery = sourceQueryMap.get(key);
-
-      if (!sourceQuery || !isQueryIdsMatched(sourceQuery.id, id)) {
-        return dict;
-      }
-
-      dict[key] = sourceQuery.value;
-
-      return dict;
-    }, {} as GeneralQueryDict);
+    return this._parseQuery(this._source.queryMap);
   }
 
   $(params?: Partial<TParamDict> & EmptyObjectPatch): RouteBuilder<TGroupName> {
@@ -243,15 +323,52 @@ export abstract class RouteMatchShared<
   $push(
     params?: Partial<TParamDict> & EmptyObjectPatch,
     {onComplete, ...options}: RouteMatchNavigateOptions<TGroupName> = {},
-  ): void {
-    this._build(params, options).$push({onComplete});
+  ): Promise<RouterNavigateResult> {
+    return this._build(params, options).$push({onComplete});
   }
 
   $replace(
     params?: Partial<TParamDict> & EmptyObjectPatch,
     {onComplete, ...options}: RouteMatchNavigateOptions<TGroupName> = {},
-  ): void {
-    this._build(params, options).$replace({onComplete});
+  ): Promise<RouterNavigateResult> {
+    return this._build(params, options).$replace({onComplete});
+  }
+
+  /** @internal */
+  _parseSegment(segment: string | undefined): GeneralParamDict {
+    if (!(this._matchPattern instanceof RegExp)) {
+      return {};
+    }
+
+    let codec = this._codec;
+
+    return {
+      [this._segmentKey]:
+        codec && segment !== undefined ? codec.parse(segment) : segment,
+    };
+  }
+
+  /** @internal */
+  _parseQuery(sourceQueryMap: Map<string, RouteSourceQuery>): GeneralQueryDict {
+    let queryKeyToSchemaMap = this._queryKeyToSchemaMap;
+    let queryKeyToRefKeyMap = this._queryKeyToRefKeyMap;
+
+    return Array.from(this._queryKeyToIdMap).reduce((dict, [key, id]) => {
+      let sourceQuery = sourceQueryMap.get(queryKeyToRefKeyMap.get(key)!);
+
+      let value =
+        sourceQuery && isQueryIdsMatched(sourceQuery.id, id)
+          ? sourceQuery.value
+          : undefined;
+
+      let parsedValue = parseQueryValue(value, queryKeyToSchemaMap.get(key));
+
+      if (parsedValue !== undefined) {
+        dict[key] = parsedValue;
+      }
+
+      return dict;
+    }, {} as GeneralQueryDict);
   }
 
   /** @internal */
@@ -6,13 +6,31 @@ import {
   autorun,
   observable,
   reaction,
+  runInAction,
 } from 'mobx';
-import {OmitValueOfKey, OmitValueWithType} from 'tslang';
+import {EmptyObjectPatch, OmitValueOfKey, OmitValueWithType} from 'tslang';
 
-import {testPathPrefix, tolerate} from '../@utils';
+import {
+  QueryValue,
+  ToleratedReturnType,
+  testPathPrefix,
+  tolerate,
+} from '../@utils';
 import {IHistory} from '../history';
+import {RouteQueryId} from '../query';
 import {RouteBuilder} from '../route-builder';
-import {Router} from '../router';
+import {
+  AttachedRouteMatchDictType,
+  Router,
+  RouterErrorContext,
+  RouterErrorPhase,
+} from '../router';
+import {
+  RouteChildrenLoader,
+  RouteRedirect,
+  RouteSchemaDict,
+  RouteTrailingSlashPolicy,
+} from '../schema';
 
 import {NextRouteMatch} from './next-route-match';
 import {
@@ -30,30 +48,39 @@ export interface RouteUpdateCallbackData {
   descendants: boolean;
 }
 
+/**
+ * Return value of a before enter/update callback: `true` or `undefined` to do
+ * nothing; `false` to revert this history change; a ref or `RouteBuilder` to
+ * redirect.
+ */
+export type RouteBeforeCallbackResult = boolean | string | RouteBuilder | void;
+
 // before enter //
 
 /**
  * Route before enter callback.
  * @return Return `true` or `undefined` to do nothing; return `false` to revert
- * this history change; return full path to redirect.
+ * this history change; return full path or `RouteBuilder` to redirect.
  */
 export type RouteBeforeEnterCallback<
   TRouteMatch extends RouteMatch = RouteMatch
-> = (next: TRouteMatch['$next']) => Promise<boolean | void> | boolean | void;
+> = (
+  next: TRouteMatch['$next'],
+) => Promise<RouteBeforeCallbackResult> | RouteBeforeCallbackResult;
 
 // before update //
 
 /**
  * Route before update callback.
  * @return Return `true` or `undefined` to do nothing; return `false` to revert
- * this history change; return full path to redirect.
+ * this history change; return full path or `RouteBuilder` to redirect.
  */
 export type RouteBeforeUpdateCallback<
   TRouteMatch extends RouteMatch = RouteMatch
 > = (
   next: TRouteMatch['$next'],
   data: RouteUpdateCallbackData,
-) => Promise<boolean | void> | boolean | void;
+) => Promise<RouteBeforeCallbackResult> | RouteBeforeCallbackResult;
 
 export interface RouteBeforeUpdateOptions {
   traceDescendants: boolean;
@@ -172,7 +199,9 @@ export type RouteHookRemovalCallback = () => void;
 
 export type RouteBeforeEnterOrUpdateCallback<
   TRouteMatch extends RouteMatch = RouteMatch
-> = (next: TRouteMatch['$next']) => Promise<boolean | void> | boolean | void;
+> = (
+  next: TRouteMatch['$next'],
+) => Promise<RouteBeforeCallbackResult> | RouteBeforeCallbackResult;
 
 export type RouteWillEnterOrUpdateCallback<
   TRouteMatch extends RouteMatch = RouteMatch
@@ -196,6 +225,10 @@ export type IRouteService<TRouteMatch extends RouteMatch = RouteMatch> = {
   beforeLeave?: RouteBeforeLeaveCallback;
   willLeave?: RouteWillLeaveCallback;
   afterLeave?: RouteAfterLeaveCallback;
+  /**
+   * Called when the router is disposed.
+   */
+  dispose?(): void;
 } & RouteServiceExtension<TRouteMatch>;
 
 export type RouteServiceExtension<
@@ -208,11 +241,70 @@ export type RouteServiceExtension<
 
 type RouteReactiveEntry = RouteAutorunEntry | RouteReactionEntry;
 
+// data //
+
+export interface RouteData<T> {
+  /**
+   * Whether the data is being loaded, stale value (if any) is kept while
+   * revalidating.
+   */
+  readonly loading: boolean;
+  readonly error: unknown;
+  readonly value: T | undefined;
+}
+
+export interface RouteDataLoadContext {
+  /**
+   * Whether this loading has been cancelled, e.g., the navigation has been
+   * superseded by a newer one.
+   */
+  readonly cancelled: boolean;
+  /**
+   * Add a callback to be called on cancellation, e.g., to abort a request.
+   */
+  onCancel(callback: () => void): void;
+}
+
+export type RouteDataLoader<TRouteMatch extends RouteMatch, T> = (
+  params: TRouteMatch['$next']['$params'],
+  context: RouteDataLoadContext,
+) => Promise<T> | T;
+
+export interface RouteDataLoaderOptions {
+  /**
+   * Milliseconds for a loaded value to be fresh, defaults to `0`.
+   */
+  ttl?: number;
+  /**
+   * Milliseconds after `ttl` during which a stale value is used while loading
+   * again in the background, defaults to `0`.
+   */
+  staleWhileRevalidate?: number;
+}
+
+interface RouteDataLoaderEntry {
+  loader: RouteDataLoader<RouteMatch, unknown>;
+  options: RouteDataLoaderOptions;
+}
+
+interface RouteDataCacheEntry {
+  value: unknown;
+  loadedAt: number;
+}
+
+/**
+ * - `navigation`: loading for a navigation, cancelled if superseded.
+ * - `revalidation`: loading in the background while serving a stale value.
+ * - `prefetch`: loading into the cache only, without touching `$data`.
+ */
+type RouteDataLoadingMode = 'navigation' | 'revalidation' | 'prefetch';
+
 interface RouteMatchInternalResult {
   matched: boolean;
   exactlyMatched: boolean;
   segment: string | undefined;
   rest: string;
+  aliased: boolean;
 }
 
 export interface RouteMatchParallelOptions<TGroupName extends string> {
@@ -220,22 +312,70 @@ export interface RouteMatchParallelOptions<TGroupName extends string> {
   matches?: RouteMatch[];
 }
 
+/**
+ * Serializable information of a route and its descendants.
+ */
+export interface RouteInfo {
+  name: string;
+  /**
+   * Key of the segment in params, differs from the name for routes of a path
+   * pattern (e.g., `userId` of route `users/:userId`).
+   */
+  key: string;
+  /**
+   * Group of the route, absent for primary routes.
+   */
+  group: string | undefined;
+  /**
+   * String match pattern, or source of the regular expression.
+   */
+  pattern: string;
+  regExp: boolean;
+  exact: boolean | string;
+  /**
+   * Keys of queries declared by this route.
+   */
+  query: string[];
+  metadata: object;
+  notFound: boolean;
+  /**
+   * Ref of `$redirect`, or `true` if it is a function.
+   */
+  redirect: string | boolean;
+  /**
+   * Whether the children are lazy and not yet loaded.
+   */
+  lazy: boolean;
+  children: RouteInfo[];
+}
+
 /** @internal */
 export interface RouteMatchUpdateResult {
   pathSegmentDict: GeneralSegmentDict;
   paramSegmentDict: GeneralSegmentDict;
 }
 
+/**
+ * Resolved result of before enter/update hooks: `true` to continue, `false` to
+ * revert, or a ref or `RouteBuilder` to redirect.
+ * @internal
+ */
+export type RouteBeforeResult = boolean | string | RouteBuilder;
+
 export interface RouteMatchEntry {
   match: RouteMatch;
   exact: boolean;
   segment: string;
   rest: string;
+  /**
+   * Whether the segment is matched by an alias of the route.
+   */
+  aliased?: boolean;
 }
 
 export interface RouteSourceQuery {
-  id: string | symbol | true;
-  value: string;
+  id: RouteQueryId;
+  value: QueryValue;
 }
 
 export interface RouteSource {
@@ -245,11 +385,27 @@ export interface RouteSource {
   >;
   queryMap: Map<string, RouteSourceQuery>;
   pathMap: Map<string | undefined, string>;
+  unmatchedPathMap: Map<string | undefined, string>;
+  hash: string;
+}
+
+export interface RoutePathPolicy {
+  caseInsensitive: boolean;
+  trailingSlash: RouteTrailingSlashPolicy;
+  collapseSlashes: boolean;
 }
 
 export interface RouteMatchOptions extends RouteMatchSharedOptions {
   exact: boolean | string;
   metadata: object | undefined;
+  pathPolicy: RoutePathPolicy;
+  alias?: (string | RegExp)[];
+  aliasReplace?: boolean;
+  redirect?: RouteRedirect;
+  /**
+   * Whether this is a `$notFound` fallback route.
+   */
+  notFound?: boolean;
 }
 
 export class RouteMatch<
@@ -301,9 +457,42 @@ export class RouteMatch<
   @observable
   private _service: IRouteService | undefined;
 
+  /** @internal */
+  @observable.ref
+  private _error: unknown;
+
   /** @internal */
   private _servicePromise: Promise<IRouteService | undefined> | undefined;
 
+  /** @internal */
+  private _data = observable<{
+    loading: boolean;
+    error: unknown;
+    value: unknown;
+  }>(
+    {
+      loading: false,
+      error: undefined,
+      value: undefined,
+    },
+    {
+      error: observable.ref,
+      value: observable.ref,
+    },
+  );
+
+  /** @internal */
+  private _dataLoaderEntry: RouteDataLoaderEntry | undefined;
+
+  /** @internal */
+  private _dataCacheMap = new Map<string, RouteDataCacheEntry>();
+
+  /** @internal */
+  private _dataLoadingCanceler: (() => void) | undefined;
+
+  /** @internal */
+  private _dataPrefetchingCancelerSet = new Set<() => void>();
+
   /** @internal */
   private _serviceFactory: RouteServiceFactory<any> | undefined;
 
@@ -313,6 +502,33 @@ export class RouteMatch<
   /** @internal */
   _parallel: RouteMatchParallelOptions<TGroupName> | undefined;
 
+  /** @internal */
+  _childrenLoader: RouteChildrenLoader | undefined;
+
+  /** @internal */
+  _childrenLoadingPromise: Promise<void> | undefined;
+
+  /**
+   * Child routes attached by `$attach()`, keyed by route name.
+   * @internal
+   */
+  readonly _attachedChildMap = new Map<string, RouteMatch>();
+
+  /** @internal */
+  readonly _notFound: boolean;
+
+  /** @internal */
+  readonly _pathPolicy: RoutePathPolicy;
+
+  /** @internal */
+  readonly _aliasReplace: boolean;
+
+  /** @internal */
+  readonly _redirect: RouteRedirect | undefined;
+
+  /** @internal */
+  private _aliases: (string | RegExp)[];
+
   constructor(
     name: string,
     router: Router<TGroupName>,
@@ -320,10 +536,23 @@ export class RouteMatch<
     parent: RouteMatch | undefined,
     extension: object | undefined,
     history: IHistory,
-    {exact, metadata, ...sharedOptions}: RouteMatchOptions,
+    {
+      exact,
+      metadata,
+      notFound = false,
+      pathPolicy,
+      alias = [],
+      aliasReplace = false,
+      redirect,
+      ...sharedOptions
+    }: RouteMatchOptions,
   ) {
     super(name, router, source, parent, history, sharedOptions);
 
+    if (alias.some(pattern => pattern instanceof RegExp && pattern.global)) {
+      throw new Error('Expecting non-global regular expressions as aliases');
+    }
+
     if (extension) {
       for (let key of Object.keys(extension)) {
         Object.defineProperty(this, key, {
@@ -344,6 +573,27 @@ export class RouteMatch<
     } as TMetadata;
 
     this._allowExact = exact;
+    this._notFound = notFound;
+    this._pathPolicy = pathPolicy;
+    this._aliases = alias;
+    this._aliasReplace = aliasReplace;
+    this._redirect = redirect;
+  }
+
+  /**
+   * The last error thrown by hooks, reactions or service of this route, reset
+   * before entering or updating this route again.
+   */
+  get $error(): unknown {
+    return this._error;
+  }
+
+  /**
+   * Observable state of the data loaded by the loader specified with
+   * `$loader()`, use the route returned by `$loader()` for a typed `value`.
+   */
+  get $data(): RouteData<unknown> {
+    return this._data;
   }
 
   $beforeEnter(
@@ -458,9 +708,7 @@ export class RouteMatch<
     this._reactiveEntrySet.add(autorunEntry);
 
     if (this.$matched) {
-      tolerate(() => {
-        autorunEntry.disposer = autorun(view, options);
-      });
+      this._startReactiveEntry(autorunEntry);
     }
 
     return () => {
@@ -489,9 +737,7 @@ export class RouteMatch<
     this._reactiveEntrySet.add(reactionEntry);
 
     if (this.$matched) {
-      tolerate(() => {
-        reactionEntry.disposer = reaction(expression, effect, options);
-      });
+      this._startReactiveEntry(reactionEntry);
     }
 
     return () => {
@@ -568,6 +814,66 @@ export class RouteMatch<
     return this;
   }
 
+  /**
+   * Attach child routes at runtime, the current location will be re-matched
+   * so that newly attached routes can take effect immediately.
+   */
+  $attach<TRouteSchemaDict extends RouteSchemaDict>(
+    schemaDict: TRouteSchemaDict,
+  ): AttachedRouteMatchDictType<
+    TRouteSchemaDict,
+    TParamDict,
+    TSpecificGroupName,
+    TGroupName,
+    TMetadata
+  > {
+    return (this.$router._attach(
+      this,
+      schemaDict,
+    ) as unknown) as AttachedRouteMatchDictType<
+      TRouteSchemaDict,
+      TParamDict,
+      TSpecificGroupName,
+      TGroupName,
+      TMetadata
+    >;
+  }
+
+  /**
+   * Detach child routes previously attached by `$attach()`, the current
+   * location will be re-matched and the detached routes disposed.
+   */
+  $detach(...routeNames: string[]): void {
+    this.$router._detach(this, routeNames);
+  }
+
+  /**
+   * Specify a data loader that runs with the params of `$next` during the
+   * will-phase of entering and updating, results are exposed as `$data` and
+   * cached by params.
+   */
+  $loader<T>(
+    loader: RouteDataLoader<this, T>,
+    options: RouteDataLoaderOptions = {},
+  ): this & {readonly $data: RouteData<T>} {
+    if (this._dataLoaderEntry) {
+      throw new Error(`Loader has already been defined for "${this.$name}"`);
+    }
+
+    this._dataLoaderEntry = {loader, options};
+
+    return this as this & {readonly $data: RouteData<T>};
+  }
+
+  /**
+   * Prefetch the target route without navigating: create services, run data
+   * loaders and load lazy children of the routes it would match. Errors are
+   * reported to `onError` of the router instead of rejecting.
+   */
+  $prefetch(params?: Partial<TParamDict> & EmptyObjectPatch): Promise<void> {
+    return this.$router._prefetch(this.$ref(params));
+  }
+
   $parallel(options: RouteMatchParallelOptions<TGroupName>): void {
     if (this.$group) {
       throw new Error('Parallel whitelist can only be set on primary routes');
@@ -645,42 +951,41 @@ export class RouteMatch<
   /** @internal */
   _match(upperRest: string): RouteMatchInternalResult {
     let pattern = this._matchPattern;
+    let {trailingSlash, collapseSlashes} = this._pathPolicy;
 
     let segment: string | undefined;
-    let rest: string;
+    let rest = '';
+    let aliased = false;
 
-    if (typeof pattern === 'string') {
-      if (testPathPrefix(upperRest, pattern)) {
-        segment = pattern;
-        rest = upperRest.slice(pattern.length);
+    for (let [index, candidatePattern] of [
+      pattern,
+      ...this._aliases,
+    ].entries()) {
+      let matchedPath = this._matchSegment(upperRest, candidatePattern);
 
-        if (rest.startsWith('/')) {
-          rest = rest.slice(1);
-        }
-      } else {
-        segment = undefined;
-        rest = '';
+      if (matchedPath === undefined) {
+        continue;
       }
-    } else {
-      let groups = pattern.exec(upperRest);
 
-      if (groups) {
-        let matched = groups[0];
+      // The segment of a string `$match` is always the pattern itself, so
+      // that a path matched by an alias has the same canonical path.
+      segment = typeof pattern === 'string' ? pattern : matchedPath;
+      rest = upperRest.slice(matchedPath.length);
+      aliased = index > 0;
 
-        if (testPathPrefix(upperRest, matched)) {
-          segment = matched;
-          rest = upperRest.slice(matched.length);
+      break;
+    }
 
-          if (rest.startsWith('/')) {
-            rest = rest.slice(1);
-          }
-        } else {
-          segment = undefined;
-          rest = '';
-        }
-      } else {
-        segment = undefined;
-        rest = '';
+    if (rest.startsWith('/')) {
+      let strippedRest = collapseSlashes
+        ? rest.replace(/^\/+/, '')
+        : rest.slice(1);
+
+      // Keep the trailing slash as rest under strict policy so that this
+      // route is not exactly matched. The leading slash of the root path is
+      // not a trailing slash.
+      if (!(strippedRest === '' && segment && trailingSlash === 'strict')) {
+        rest = strippedRest;
       }
     }
 
@@ -693,8 +998,13 @@ export class RouteMatch<
       if (typeof allowExact === 'string') {
         // Specify a default rest path on an exact match.
         rest = allowExact;
-      } else if (this._children && !allowExact) {
-        // If this route has children and does not allow exact match, then this
+      } else if (
+        (this._childrenLoader ||
+          this._children?.some(child => !child._notFound)) &&
+        !allowExact
+      ) {
+        // If this route has children (other than `$notFound`, including lazy
+        // children not yet loaded) and does not allow exact match, then this
         // match is invalid and reset `matched` and `exactlyMatched` to false.
         matched = false;
         exactlyMatched = false;
@@ -706,6 +1016,7 @@ export class RouteMatch<
       exactlyMatched,
       segment,
       rest,
+      aliased,
     };
   }
 
@@ -713,13 +1024,15 @@ export class RouteMatch<
   async _beforeLeave(): Promise<boolean> {
     let results = await Promise.all([
       ...Array.from(this._beforeLeaveCallbackSet).map(callback =>
-        tolerate(callback),
+        this._callBeforeHook('beforeLeave', callback),
       ),
       (async () => {
         let service = await this._getService();
 
         if (service && service.beforeLeave) {
-          return tolerate(() => service!.beforeLeave!());
+          return this._callBeforeHook('beforeLeave', () =>
+            service!.beforeLeave!(),
+          );
         }
       })(),
     ]);
@@ -728,29 +1041,39 @@ export class RouteMatch<
   }
 
   /** @internal */
-  async _beforeEnter(): Promise<boolean> {
+  async _beforeEnter(): Promise<RouteBeforeResult> {
+    runInAction(() => {
+      this._error = undefined;
+    });
+
     let next = this.$next;
 
     let results = await Promise.all([
       ...Array.from(this._beforeEnterCallbackSet).map(callback =>
-        tolerate(callback, next),
+        this._callBeforeHook('beforeEnter', callback, next),
       ),
       (async () => {
         let service = await this._getService();
 
         if (service && service.beforeEnter) {
-          return tolerate(() => service!.beforeEnter!(next));
+          return this._callBeforeHook('beforeEnter', () =>
+            service!.beforeEnter!(next),
+          );
         }
       })(),
     ]);
 
-    return !results.some(result => result === false);
+    return resolveBeforeResults(results);
   }
 
   /** @internal */
   async _beforeUpdate(
     triggeredByDescendants: boolean,
-  ): Promise<boolean | RouteMatch> {
+  ): Promise<RouteBeforeResult> {
+    runInAction(() => {
+      this._error = undefined;
+    });
+
     let next = this.$next;
 
     let results = await Promise.all([
@@ -759,20 +1082,22 @@ export class RouteMatch<
           triggeredByDescendants ? options && options.traceDescendants : true,
         )
         .map(({callback}) =>
-          tolerate(callback, next, {descendants: triggeredByDescendants}),
+          this._callBeforeHook('beforeUpdate', callback, next, {
+            descendants: triggeredByDescendants,
+          }),
         ),
       (async () => {
         let service = await this._getService();
 
         if (service && service.beforeUpdate) {
-          return tolerate(() =>
+          return this._callBeforeHook('beforeUpdate', () =>
             service!.beforeUpdate!(next, {descendants: triggeredByDescendants}),
           );
         }
       })(),
     ]);
 
-    return !results.some(result => result === false);
+    return resolveBeforeResults(results);
   }
 
   /** @internal */
@@ -786,13 +1111,13 @@ export class RouteMatch<
 
     await Promise.all([
       ...Array.from(this._willLeaveCallbackSet).map(callback =>
-        tolerate(callback),
+        this._tolerate('willLeave', callback),
       ),
       (async () => {
         let service = await this._getService();
 
         if (service && service.willLeave) {
-          return tolerate(() => service!.willLeave!());
+          return this._tolerate('willLeave', () => service!.willLeave!());
         }
       })(),
     ]);
@@ -803,14 +1128,15 @@ export class RouteMatch<
     let next = this.$next;
 
     await Promise.all([
+      this._loadData(),
       ...Array.from(this._willEnterCallbackSet).map(callback =>
-        tolerate(callback, next),
+        this._tolerate('willEnter', callback, next),
       ),
       (async () => {
         let service = await this._getService();
 
         if (service && service.willEnter) {
-          return tolerate(() => service!.willEnter!(next));
+          return this._tolerate('willEnter', () => service!.willEnter!(next));
         }
       })(),
     ]);
@@ -821,18 +1147,22 @@ export class RouteMatch<
     let next = this.$next;
 
     await Promise.all([
+      // Params of this route are not changed if triggered by descendants.
+      triggeredByDescendants ? undefined : this._loadData(),
       ...Array.from(this._willUpdateEntrySet)
         .filter(({options}) =>
           triggeredByDescendants ? options && options.traceDescendants : true,
         )
         .map(({callback}) =>
-          tolerate(callback, next, {descendants: triggeredByDescendants}),
+          this._tolerate('willUpdate', callback, next, {
+            descendants: triggeredByDescendants,
+          }),
         ),
       (async () => {
         let service = await this._getService();
 
         if (service && service.willUpdate) {
-          return tolerate(() =>
+          return this._tolerate('willUpdate', () =>
             service!.willUpdate!(next, {descendants: triggeredByDescendants}),
           );
         }
@@ -843,26 +1173,26 @@ export class RouteMatch<
   /** @internal */
   async _afterLeave(): Promise<void> {
     for (let callback of this._afterLeaveCallbackSet) {
-      tolerate(callback);
+      this._tolerate('afterLeave', callback);
     }
 
     let service = await this._getService();
 
     if (service && service.afterLeave) {
-      tolerate(() => service!.afterLeave!());
+      this._tolerate('afterLeave', () => service!.afterLeave!());
     }
   }
 
   /** @internal */
   async _afterEnter(): Promise<void> {
     for (let callback of this._afterEnterCallbackSet) {
-      tolerate(callback);
+      this._tolerate('afterEnter', callback);
     }
 
     let service = await this._getService();
 
     if (service && service.afterEnter) {
-      tolerate(() => service!.afterEnter!());
+      this._tolerate('afterEnter', () => service!.afterEnter!());
     }
 
     for (let reactiveEntry of this._reactiveEntrySet) {
@@ -871,23 +1201,7 @@ export class RouteMatch<
         console.warn('Unexpected disposer during afterEnter phase.');
       }
 
-      tolerate(() => {
-        switch (reactiveEntry.type) {
-          case 'autorun':
-            reactiveEntry.disposer = autorun(
-              reactiveEntry.view,
-              reactiveEntry.options,
-            );
-            break;
-          case 'reaction':
-            reactiveEntry.disposer = reaction(
-              reactiveEntry.expression,
-              reactiveEntry.effect,
-              reactiveEntry.options,
-            );
-            break;
-        }
-      });
+      this._startReactiveEntry(reactiveEntry);
     }
   }
 
@@ -895,19 +1209,77 @@ export class RouteMatch<
   async _afterUpdate(triggeredByDescendants: boolean): Promise<void> {
     for (let {callback, options} of this._afterUpdateEntrySet) {
       if (triggeredByDescendants ? options && options.traceDescendants : true) {
-        tolerate(callback, {descendants: triggeredByDescendants});
+        this._tolerate('afterUpdate', callback, {
+          descendants: triggeredByDescendants,
+        });
       }
     }
 
     let service = await this._getService();
 
     if (service && service.afterUpdate) {
-      tolerate(() =>
+      this._tolerate('afterUpdate', () =>
         service!.afterUpdate!({descendants: triggeredByDescendants}),
       );
     }
   }
 
+  /** @internal */
+  _dispose(): void {
+    for (let reactiveEntry of this._reactiveEntrySet) {
+      if (reactiveEntry.disposer) {
+        reactiveEntry.disposer();
+        reactiveEntry.disposer = undefined;
+      }
+    }
+
+    this._reactiveEntrySet.clear();
+
+    if (this._dataLoadingCanceler) {
+      this._dataLoadingCanceler();
+    }
+
+    for (let canceler of Array.from(this._dataPrefetchingCancelerSet)) {
+      canceler();
+    }
+
+    let service = this._service;
+
+    if (service && service.dispose) {
+      this._tolerate('service', () => service!.dispose!());
+    }
+
+    for (let child of this._children ?? []) {
+      child._dispose();
+    }
+  }
+
+  /** @internal */
+  async _prefetch(params: GeneralParamDict): Promise<void> {
+    await Promise.all([this._getService(), this._prefetchData(params)]);
+  }
+
+  /** @internal */
+  _getInfo(): RouteInfo {
+    let pattern = this._matchPattern;
+    let redirect = this._redirect;
+
+    return {
+      name: this.$name,
+      key: this._segmentKey,
+      group: this.$group,
+      pattern: typeof pattern === 'string' ? pattern : pattern.source,
+      regExp: typeof pattern !== 'string',
+      exact: this._allowExact,
+      query: this._queryKeys,
+      metadata: this.$metadata,
+      notFound: this._notFound,
+      redirect: typeof redirect === 'function' ? true : redirect ?? false,
+      lazy: !!this._childrenLoader,
+      children: (this._children ?? []).map(child => child._getInfo()),
+    };
+  }
+
   /** @internal */
   _getMatchEntry(source: RouteSource): RouteMatchEntry | undefined {
     let matchToMatchEntryMap = source.groupToMatchToMatchEntryMapMap.get(
@@ -922,6 +1294,326 @@ export class RouteMatch<
     return this.$router.$current;
   }
 
+  /** @internal */
+  private _tolerate<T extends (...args: any[]) => any>(
+    phase: RouterErrorPhase,
+    fn: T,
+    ...args: Parameters<T>
+  ): ToleratedReturnType<ReturnType<T>> {
+    return tolerate(error => this._handleError(error, phase), fn, ...args);
+  }
+
+  /**
+   * Start an autorun or reaction. Errors thrown by the view, expression or
+   * effect are caught by MobX, so they are reported through its `onError`
+   * option instead.
+   * @internal
+   */
+  private _startReactiveEntry(reactiveEntry: RouteReactiveEntry): void {
+    let onError = (error: unknown): void => {
+      this._handleError(error, 'reaction');
+
+      let options = reactiveEntry.options;
+
+      if (options && options.onError) {
+        options.onError(error);
+      }
+    };
+
+    this._tolerate('reaction', () => {
+      switch (reactiveEntry.type) {
+        case 'autorun':
+          reactiveEntry.disposer = autorun(reactiveEntry.view, {
+            ...reactiveEntry.options,
+            onError,
+          });
+          break;
+        case 'reaction':
+          reactiveEntry.disposer = reaction(
+            reactiveEntry.expression,
+            reactiveEntry.effect,
+            {...reactiveEntry.options, onError},
+          );
+          break;
+      }
+    });
+  }
+
+  /**
+   * Match the leading segment of the rest path with a pattern, returns the
+   * matched part of the path or `undefined` if not matched.
+   * @internal
+   */
+  private _matchSegment(
+    upperRest: string,
+    pattern: string | RegExp,
+  ): string | undefined {
+    if (typeof pattern === 'string') {
+      return testPathPrefix(
+        upperRest,
+        pattern,
+        this._pathPolicy.caseInsensitive,
+      )
+        ? upperRest.slice(0, pattern.length)
+        : undefined;
+    }
+
+    let groups = pattern.exec(upperRest);
+
+    if (!groups) {
+      return undefined;
+    }
+
+    let matched = groups[0];
+
+    // Segment codec applies to segments of a `RegExp` `$match` only.
+    if (
+      !testPathPrefix(upperRest, matched) ||
+      (this._matchPattern instanceof RegExp &&
+        this._codec &&
+        this._codec.parse(matched) === undefined)
+    ) {
+      return undefined;
+    }
+
+    return matched;
+  }
+
+  /** @internal */
+  private async _callBeforeHook<T extends (...args: any[]) => any>(
+    phase: RouterErrorPhase,
+    fn: T,
+    ...args: Parameters<T>
+  ): Promise<RouteBeforeCallbackResult> {
+    try {
+      return await fn(...args);
+    } catch (error) {
+      let context = this._handleError(error, phase);
+
+      let policy = this.$router._beforeHookErrorPolicy;
+
+      switch (policy) {
+        case 'continue':
+          return undefined;
+        case 'abort':
+          return false;
+        default:
+          return policy(error, context);
+      }
+    }
+  }
+
+  /** @internal */
+  private _handleError(
+    error: unknown,
+    phase: RouterErrorPhase,
+  ): RouterErrorContext {
+    runInAction(() => {
+      this._error = error;
+    });
+
+    return this.$router._handleError(error, this, phase);
+  }
+
+  /** @internal */
+  private async _loadData(): Promise<void> {
+    let entry = this._dataLoaderEntry;
+
+    if (!entry) {
+      return;
+    }
+
+    let {ttl = 0, staleWhileRevalidate = 0} = entry.options;
+
+    let params = this.$next.$params;
+    let key = getDataCacheKey(params);
+
+    let cacheEntry = this._dataCacheMap.get(key);
+
+    let age = cacheEntry ? Date.now() - cacheEntry.loadedAt : Infinity;
+
+    if (cacheEntry && age < ttl) {
+      let {value} = cacheEntry;
+
+      if (this._dataLoadingCanceler) {
+        this._dataLoadingCanceler();
+      }
+
+      runInAction(() => {
+        Object.assign(this._data, {loading: false, error: undefined, value});
+      });
+
+      return;
+    }
+
+    if (cacheEntry && age < ttl + staleWhileRevalidate) {
+      let {value} = cacheEntry;
+
+      runInAction(() => {
+        Object.assign(this._data, {error: undefined, value});
+      });
+
+      // Revalidate in the background without blocking the navigation.
+      void this._runDataLoader(entry, key, params, 'revalidation');
+
+      return;
+    }
+
+    await this._runDataLoader(entry, key, params, 'navigation');
+  }
+
+  /** @internal */
+  private async _prefetchData(params: GeneralParamDict): Promise<void> {
+    let entry = this._dataLoaderEntry;
+
+    if (!entry) {
+      return;
+    }
+
+    let {ttl = 0} = entry.options;
+
+    let key = getDataCacheKey(params);
+
+    let cacheEntry = this._dataCacheMap.get(key);
+
+    if (cacheEntry && Date.now() - cacheEntry.loadedAt < ttl) {
+      return;
+    }
+
+    await this._runDataLoader(entry, key, params, 'prefetch');
+  }
+
+  /** @internal */
+  private async _runDataLoader(
+    {loader, options}: RouteDataLoaderEntry,
+    key: string,
+    params: GeneralParamDict,
+    mode: RouteDataLoadingMode,
+  ): Promise<void> {
+    let prefetching = mode === 'prefetch';
+
+    // Prefetching does not interrupt the loading of `$data`.
+    if (!prefetching && this._dataLoadingCanceler) {
+      this._dataLoadingCanceler();
+    }
+
+    let router = this.$router;
+
+    let cancelled = false;
+    let cancelCallbacks: (() => void)[] = [];
+
+    let canceler = (): void => {
+      if (cancelled) {
+        return;
+      }
+
+      cancelled = true;
+
+      router._dataLoadingCancelerSet.delete(canceler);
+      this._dataPrefetchingCancelerSet.delete(canceler);
+
+      if (this._dataLoadingCanceler === canceler) {
+        this._dataLoadingCanceler = undefined;
+
+        runInAction(() => {
+          this._data.loading = false;
+        });
+      }
+
+      for (let callback of cancelCallbacks) {
+        this._tolerate('data', callback);
+      }
+    };
+
+    let context: RouteDataLoadContext = {
+      get cancelled() {
+        return cancelled;
+      },
+      onCancel(callback) {
+        cancelCallbacks.push(callback);
+      },
+    };
+
+    if (prefetching) {
+      this._dataPrefetchingCancelerSet.add(canceler);
+    } else {
+      this._dataLoadingCanceler = canceler;
+
+      if (mode === 'navigation') {
+        router._dataLoadingCancelerSet.add(canceler);
+      }
+
+      runInAction(() => {
+        this._data.loading = true;
+      });
+    }
+
+    let loaded: {value: unknown} | undefined;
+    let failed: {error: unknown} | undefined;
+
+    try {
+      loaded = {value: await loader(params, context)};
+    } catch (error) {
+      failed = {error};
+    }
+
+    if (cancelled) {
+      return;
+    }
+
+    if (prefetching) {
+      this._dataPrefetchingCancelerSet.delete(canceler);
+    } else {
+      router._dataLoadingCancelerSet.delete(canceler);
+      this._dataLoadingCanceler = undefined;
+    }
+
+    if (loaded) {
+      let {value} = loaded;
+
+      this._cacheData(key, value, options);
+
+      if (!prefetching) {
+        runInAction(() => {
+          Object.assign(this._data, {loading: false, error: undefined, value});
+        });
+      }
+    } else {
+      let {error} = failed!;
+
+      if (!prefetching) {
+        runInAction(() => {
+          Object.assign(this._data, {loading: false, error});
+        });
+      }
+
+      this._handleError(error, 'data');
+    }
+  }
+
+  /** @internal */
+  private _cacheData(
+    key: string,
+    value: unknown,
+    {ttl = 0, staleWhileRevalidate = 0}: RouteDataLoaderOptions,
+  ): void {
+    let dataCacheMap = this._dataCacheMap;
+
+    let lifetime = ttl + staleWhileRevalidate;
+    let now = Date.now();
+
+    // Evict entries that are no longer usable, even as stale values.
+    for (let [cachedKey, {loadedAt}] of dataCacheMap) {
+      if (now - loadedAt >= lifetime) {
+        dataCacheMap.delete(cachedKey);
+      }
+    }
+
+    if (lifetime > 0) {
+      dataCacheMap.set(key, {value, loadedAt: now});
+    }
+  }
+
   /** @internal */
   private async _getService(): Promise<IRouteService | undefined> {
     let serviceOrServicePromise = this._service || this._servicePromise;
@@ -936,7 +1628,7 @@ export class RouteMatch<
       return undefined;
     }
 
-    let output = tolerate(factory, this);
+    let output = this._tolerate('service', factory, this);
 
     if (output instanceof Promise) {
       return (this._servicePromise = output.then(service => {
@@ -952,3 +1644,27 @@ export class RouteMatch<
   static SEGMENT = /[^/]+/;
   static REST = /.*/;
 }
+
+function resolveBeforeResults(
+  results: (RouteBeforeCallbackResult | undefined)[],
+): RouteBeforeResult {
+  for (let result of results) {
+    if (
+      result === false ||
+      typeof result === 'string' ||
+      result instanceof RouteBuilder
+    ) {
+      return result;
+    }
+  }
+
+  return true;
+}
+
+function getDataCacheKey(params: GeneralParamDict): string {
+  return JSON.stringify(
+    Object.keys(params)
+      .sort()
+      .map(key => [key, params[key]]),
+  );
+}
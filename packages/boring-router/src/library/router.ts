@@ -3,52 +3,127 @@ import _ from 'lodash';
 import {action, observable, runInAction} from 'mobx';
 import {Dict, EmptyObjectPatch} from 'tslang';
 
-import {parseRef, parseSearch} from './@utils';
-import {HistorySnapshot, IHistory, getActiveHistoryEntry} from './history';
+import {QueryValue, buildRef, parseRef, parseSearch} from './@utils';
+import {
+  HistoryChangeCallbackRemovalHandler,
+  HistorySnapshot,
+  IHistory,
+  getActiveHistoryEntry,
+} from './history';
+import {IParallelEncoding, parallelEncoding} from './parallel-encoding';
+import {RouteQueryDictType} from './query';
 import {RouteBuilder} from './route-builder';
+import {RouteGroupTemplate} from './route-group-template';
 import {
   GeneralParamDict,
   NextRouteMatch,
+  RouteBeforeCallbackResult,
+  RouteInfo,
   RouteMatch,
   RouteMatchEntry,
   RouteMatchOptions,
   RouteMatchShared,
   RouteMatchSharedToParamDict,
+  RoutePathPolicy,
   RouteSource,
   RouteSourceQuery,
 } from './route-match';
-import {RootRouteSchema, RouteSchema, RouteSchemaDict} from './schema';
+import {
+  RootRouteSchema,
+  RouteChildrenLoader,
+  RoutePathPattern,
+  RouteSchema,
+  RouteSchemaDict,
+  RouteSegmentCodec,
+  RouteTrailingSlashPolicy,
+} from './schema';
 
 export type SegmentMatcherCallback = (key: string) => string;
 
 const DEFAULT_SEGMENT_MATCHER_CALLBACK: SegmentMatcherCallback = key =>
   hyphenate(key, {lowerCase: true});
 
+const DEFAULT_ERROR_HANDLER: RouterErrorHandler = error => console.error(error);
+
+const DEFAULT_PARALLEL_ENCODING = parallelEncoding.query();
+
+const MAX_REDIRECTS = 10;
+
+const GROUP_INSTANCE_SEPARATOR = ':';
+
+const PATH_PATTERN_PARAM_SEGMENT_REGEX = /^:(\w+)(\?)?$/;
+
+const NOT_FOUND_ROUTE_NAME = '$notFound';
+const NOT_FOUND_SEGMENT_KEY = 'rest';
+
 type RouteQuerySchemaType<TRouteSchema> = TRouteSchema extends {
   $query: infer TQuerySchema;
 }
   ? TQuerySchema
   : {};
 
+type MergedRouteQueryDictType<TUpperQueryDict, TRouteSchema> = Omit<
+  TUpperQueryDict,
+  keyof RouteQuerySchemaType<TRouteSchema>
+> &
+  RouteQueryDictType<RouteQuerySchemaType<TRouteSchema>>;
+
+type RouteSegmentValueType<TRouteSchema> = TRouteSchema extends {
+  $codec: RouteSegmentCodec<infer T>;
+}
+  ? T
+  : string;
+
 type FilterRouteMatchNonStringSegment<TRouteSchema, T> = TRouteSchema extends {
   $match: infer TMatch;
 }
   ? TMatch extends string
-    ? never
+    ? {}
     : T
-  : never;
+  : {};
+
+type RouteSegmentDictType<
+  TRouteSchema,
+  TKey extends string
+> = TKey extends typeof NOT_FOUND_ROUTE_NAME
+  ? Record<typeof NOT_FOUND_SEGMENT_KEY, string>
+  : TRouteSchema extends {
+      $match: RoutePathPattern<infer TParamKey, infer TOptionalParamKey>;
+    }
+  ? Record<TParamKey, string> & Partial<Record<TOptionalParamKey, string>>
+  : FilterRouteMatchNonStringSegment<
+      TRouteSchema,
+      Record<TKey, RouteSegmentValueType<TRouteSchema>>
+    >;
 
 interface RouteSchemaChildrenSection<TRouteSchemaDict> {
   $children: TRouteSchemaDict;
 }
 
+interface RouteSchemaNotFoundSection<TNotFoundRouteSchema> {
+  $notFound: TNotFoundRouteSchema;
+}
+
+type NotFoundRouteSchemaDictType<
+  TRouteSchema
+> = TRouteSchema extends RouteSchemaNotFoundSection<infer TNotFoundRouteSchema>
+  ? [TNotFoundRouteSchema] extends [false]
+    ? {}
+    : {[NOT_FOUND_ROUTE_NAME]: TNotFoundRouteSchema}
+  : {};
+
 type NestedRouteSchemaDictType<
   TRouteSchema
-> = TRouteSchema extends RouteSchemaChildrenSection<
+> = (TRouteSchema extends RouteSchemaChildrenSection<
   infer TNestedRouteSchemaDict
 >
-  ? TNestedRouteSchemaDict
-  : {};
+  ? TNestedRouteSchemaDict extends RouteChildrenLoader<
+      infer TLoadedRouteSchemaDict
+    >
+    ? TLoadedRouteSchemaDict
+    : TNestedRouteSchemaDict
+  : {}) &
+  NotFoundRouteSchemaDictType<TRouteSchema>;
 
 interface RouteSchemaExtensionSection<TRouteMatchExtension> {
   $extension: TRouteMatchExtension;
@@ -73,17 +148,16 @@ type RouteMatchExtensionType<
 
 type RouteMatchSegmentType<
   TRouteSchemaDict,
-  TSegmentKey extends string,
-  TQueryKey extends string,
+  TSegmentDict extends GeneralParamDict,
+  TQueryDict extends object,
   TSpecificGroupName extends string | undefined,
   TGroupName extends string,
   TMetadata extends object
 > = {
   [K in Extract<keyof TRouteSchemaDict, string>]: RouteMatchType<
     TRouteSchemaDict[K],
-    TSegmentKey | FilterRouteMatchNonStringSegment<TRouteSchemaDict[K], K>,
-    | TQueryKey
-    | Extract<keyof RouteQuerySchemaType<TRouteSchemaDict[K]>, string>,
+    TSegmentDict & RouteSegmentDictType<TRouteSchemaDict[K], K>,
+    MergedRouteQueryDictType<TQueryDict, TRouteSchemaDict[K]>,
     TSpecificGroupName,
     TGroupName,
     TMetadata
@@ -92,18 +166,18 @@ type RouteMatchSegmentType<
 
 type __RouteMatchType<
   TRouteSchema,
-  TSegmentKey extends string,
-  TQueryKey extends string,
+  TSegmentDict extends GeneralParamDict,
+  TQueryDict extends object,
   TSpecificGroupName extends string | undefined,
   TGroupName extends string,
-  TParamDict extends Dict<string | undefined>,
+  TParamDict extends GeneralParamDict,
   TMetadata extends object
 > = RouteMatch<
   TParamDict,
   __NextRouteMatchType<
     TRouteSchema,
-    TSegmentKey,
-    TQueryKey,
+    TSegmentDict,
+    TQueryDict,
     TSpecificGroupName,
     TGroupName,
     TParamDict
@@ -114,8 +188,8 @@ type __RouteMatchType<
 > &
   RouteMatchSegmentType<
     NestedRouteSchemaDictType<TRouteSchema>,
-    TSegmentKey,
-    TQueryKey,
+    TSegmentDict,
+    TQueryDict,
     TSpecificGroupName,
     TGroupName,
     RouteMatchMetadataType<TRouteSchema, TMetadata>
@@ -124,33 +198,32 @@ type __RouteMatchType<
 
 export type RouteMatchType<
   TRouteSchema,
-  TSegmentKey extends string,
-  TQueryKey extends string,
+  TSegmentDict extends GeneralParamDict,
+  TQueryDict extends object,
   TSpecificGroupName extends string | undefined,
   TGroupName extends string,
   TMetadata extends object
 > = __RouteMatchType<
   TRouteSchema,
-  TSegmentKey,
-  TQueryKey,
+  TSegmentDict,
+  TQueryDict,
   TSpecificGroupName,
   TGroupName,
-  Record<TQueryKey, string | undefined> & Record<TSegmentKey, string>,
+  TQueryDict & TSegmentDict,
   TMetadata
 >;
 
 type NextRouteMatchSegmentType<
   TRouteSchemaDict,
-  TSegmentKey extends string,
-  TQueryKey extends string,
+  TSegmentDict extends GeneralParamDict,
+  TQueryDict extends object,
   TSpecificGroupName extends string | undefined,
   TGroupName extends string
 > = {
   [K in Extract<keyof TRouteSchemaDict, string>]: NextRouteMatchType<
     TRouteSchemaDict[K],
-    TSegmentKey | FilterRouteMatchNonStringSegment<TRouteSchemaDict[K], K>,
-    | TQueryKey
-    | Extract<keyof RouteQuerySchemaType<TRouteSchemaDict[K]>, string>,
+    TSegmentDict & RouteSegmentDictType<TRouteSchemaDict[K], K>,
+    MergedRouteQueryDictType<TQueryDict, TRouteSchemaDict[K]>,
     TSpecificGroupName,
     TGroupName
   >;
@@ -158,33 +231,33 @@ type NextRouteMatchSegmentType<
 
 type __NextRouteMatchType<
   TRouteSchema,
-  TSegmentKey extends string,
-  TQueryKey extends string,
+  TSegmentDict extends GeneralParamDict,
+  TQueryDict extends object,
   TSpecificGroupName extends string | undefined,
   TGroupName extends string,
-  TParamDict extends Dict<string | undefined>
+  TParamDict extends GeneralParamDict
 > = NextRouteMatch<TParamDict, TSpecificGroupName, TGroupName> &
   NextRouteMatchSegmentType<
     NestedRouteSchemaDictType<TRouteSchema>,
-    TSegmentKey,
-    TQueryKey,
+    TSegmentDict,
+    TQueryDict,
     TSpecificGroupName,
     TGroupName
   >;
 
 type NextRouteMatchType<
   TRouteSchema,
-  TSegmentKey extends string,
-  TQueryKey extends string,
+  TSegmentDict extends GeneralParamDict,
+  TQueryDict extends object,
   TSpecificGroupName extends string | undefined,
   TGroupName extends string
 > = __NextRouteMatchType<
   TRouteSchema,
-  TSegmentKey,
-  TQueryKey,
+  TSegmentDict,
+  TQueryDict,
   TSpecificGroupName,
   TGroupName,
-  Record<TQueryKey, string | undefined> & Record<TSegmentKey, string>
+  TQueryDict & TSegmentDict
 >;
 
 export type RootRouteMatchType<
@@ -194,8 +267,26 @@ export type RootRouteMatchType<
   TMetadata extends object = {}
 > = RouteMatchType<
   TRouteSchema,
-  never,
-  Extract<keyof RouteQuerySchemaType<TRouteSchema>, string>,
+  {},
+  RouteQueryDictType<RouteQuerySchemaType<TRouteSchema>>,
+  TSpecificGroupName,
+  TGroupName,
+  TMetadata
+>;
+
+/**
+ * Type of the child route matches attached by `RouteMatch.prototype.$attach()`.
+ */
+export type AttachedRouteMatchDictType<
+  TRouteSchemaDict,
+  TParamDict extends GeneralParamDict,
+  TSpecificGroupName extends string | undefined,
+  TGroupName extends string,
+  TMetadata extends object
+> = RouteMatchSegmentType<
+  TRouteSchemaDict,
+  TParamDict,
+  {},
   TSpecificGroupName,
   TGroupName,
   TMetadata
@@ -205,16 +296,193 @@ export type RouterOnLeave = (path: string) => void;
 
 export type RouterOnNavigateComplete = () => void;
 
+/**
+ * Outcome of a navigation:
+ *
+ * - `completed`: the navigation has completed.
+ * - `reverted`: the navigation has been reverted by a hook.
+ * - `redirected`: the navigation has completed after being redirected by
+ *   hooks.
+ * - `superseded`: the navigation has been superseded by a newer navigation.
+ * - `error`: the navigation has failed with an error, which has also been
+ *   passed to `onError`.
+ */
+export type RouterNavigateResultType =
+  | 'completed'
+  | 'reverted'
+  | 'redirected'
+  | 'superseded'
+  | 'error';
+
+export interface RouterNavigateResult {
+  type: RouterNavigateResultType;
+  /**
+   * The ref the router ends up with (or is heading to, if superseded).
+   */
+  ref: string;
+  /**
+   * The error the navigation failed with, if `type` is `'error'`.
+   */
+  error?: unknown;
+}
+
+export interface RouterResolvedMatch {
+  route: RouteMatch;
+  segment: string;
+  exact: boolean;
+  /**
+   * Params (segments and queries) the route would have.
+   */
+  params: GeneralParamDict;
+}
+
+export interface RouterNavigateChanges {
+  entered: RouteMatch[];
+  updated: RouteMatch[];
+  left: RouteMatch[];
+}
+
+export interface RouterNavigateEvent {
+  /**
+   * Target ref of the navigation.
+   */
+  ref: string;
+}
+
+export interface RouterNavigatePhaseEvent<TGroupName extends string>
+  extends RouterNavigateEvent {
+  /**
+   * Matches entered, updated and left by the navigation, grouped by route
+   * group (`undefined` for the primary group).
+   */
+  changes: Map<TGroupName | undefined, RouterNavigateChanges>;
+}
+
+export interface RouterNavigateErrorEvent extends RouterNavigateEvent {
+  error: unknown;
+}
+
+export interface RouterEventDict<TGroupName extends string> {
+  start: RouterNavigateEvent;
+  before: RouterNavigatePhaseEvent<TGroupName>;
+  will: RouterNavigatePhaseEvent<TGroupName>;
+  after: RouterNavigatePhaseEvent<TGroupName>;
+  revert: RouterNavigateEvent;
+  complete: RouterNavigatePhaseEvent<TGroupName>;
+  error: RouterNavigateErrorEvent;
+}
+
+export type RouterEventType = keyof RouterEventDict<string>;
+
+export type RouterEventListener<TEvent> = (event: TEvent) => void;
+
+export type RouterEventRemovalCallback = () => void;
+
+/** @internal */
+export interface RouterNavigateResultListener {
+  resolve(result: RouterNavigateResult): void;
+}
+
 export interface RouterHistoryEntryData {
   navigateCompleteListener?: RouterOnNavigateComplete;
+  /** @internal */
+  navigateResultListener?: RouterNavigateResultListener;
+}
+
+export type RouterErrorPhase =
+  | 'beforeEnter'
+  | 'beforeUpdate'
+  | 'beforeLeave'
+  | 'willEnter'
+  | 'willUpdate'
+  | 'willLeave'
+  | 'afterEnter'
+  | 'afterUpdate'
+  | 'afterLeave'
+  | 'reaction'
+  | 'service'
+  | 'data'
+  | 'prefetch'
+  | 'navigation';
+
+export interface RouterErrorContext {
+  /**
+   * The route whose hook, reaction or service throws, `undefined` for errors
+   * of the navigation itself.
+   */
+  route: RouteMatch | undefined;
+  phase: RouterErrorPhase;
+  /**
+   * Target ref of the navigation in progress, or the current ref if there's
+   * no navigation in progress.
+   */
+  ref: string | undefined;
 }
 
+export type RouterErrorHandler = (
+  error: unknown,
+  context: RouterErrorContext,
+) => void;
+
+/**
+ * Callback to decide what to do with an error thrown by a before hook, the
+ * return value is handled the same way as the return value of a before hook.
+ */
+export type RouterBeforeHookErrorCallback = (
+  error: unknown,
+  context: RouterErrorContext,
+) => RouteBeforeCallbackResult;
+
+/**
+ * What to do if a before hook throws: `'continue'` to ignore the error,
+ * `'abort'` to revert the navigation, or a callback that may return a ref or
+ * `RouteBuilder` to redirect to (e.g., an error route).
+ */
+export type RouterBeforeHookErrorPolicy =
+  | 'continue'
+  | 'abort'
+  | RouterBeforeHookErrorCallback;
+
 export interface RouterOptions {
   /**
    * A function to perform default schema field name to segment string
    * transformation.
    */
   segmentMatcher?: SegmentMatcherCallback;
+  /**
+   * Error handler for errors thrown by hooks, reactions, services and
+   * navigations, defaults to `console.error`.
+   */
+  onError?: RouterErrorHandler;
+  /**
+   * Policy for errors thrown by before hooks, defaults to `'continue'`.
+   */
+  beforeHookErrorPolicy?: RouterBeforeHookErrorPolicy;
+  /**
+   * Whether to match string `$match` patterns case-insensitively, defaults to
+   * `false`. Can be overridden by route schema option `$caseInsensitive`.
+   */
+  caseInsensitive?: boolean;
+  /**
+   * Trailing slash policy, defaults to `'lenient'`. Can be overridden by route
+   * schema option `$trailingSlash`.
+   */
+  trailingSlash?: RouteTrailingSlashPolicy;
+  /**
+   * Whether to treat duplicate slashes (e.g., `/foo//bar`) as one, defaults to
+   * `false`. Can be overridden by route schema option `$collapseSlashes`.
+   */
+  collapseSlashes?: boolean;
+  /**
+   * Whether to redirect to the canonical form of a matched path (e.g., from
+   * `/Foo//bar/` to `/foo/bar`), defaults to `false`.
+   */
+  canonicalRedirect?: boolean;
+  /**
+   * How paths of parallel route groups are carried in refs, defaults to
+   * `parallelEncoding.query()` (e.g., `/workbench?_overlay=/task/123`).
+   */
+  parallelEncoding?: IParallelEncoding;
 }
 
 export interface RouterNavigateOptions {
@@ -228,6 +496,42 @@ export type RouterHistory = IHistory<unknown, RouterHistoryEntryData>;
 
 type RouterHistorySnapshot = HistorySnapshot<unknown, RouterHistoryEntryData>;
 
+type RouterEventListenerSetDict<TGroupName extends string> = {
+  [TType in RouterEventType]: Set<
+    RouterEventListener<RouterEventDict<TGroupName>[TType]>
+  >;
+};
+
+type AbortedNavigateResultType = Exclude<RouterNavigateResultType, 'completed'>;
+
+interface PendingRedirect {
+  /**
+   * Ref being redirected to.
+   */
+  ref: string;
+  /**
+   * Refs that have been redirected from during the navigation, used to detect
+   * redirect loops.
+   */
+  redirectedRefs: string[];
+}
+
+interface RefMatchResult {
+  queryMap: Map<string, QueryValue>;
+  pathMap: Map<string | undefined, string>;
+  hash: string;
+  unmatchedPathMap: Map<string | undefined, string>;
+  /**
+   * Root routes of all groups, including instances of group templates built
+   * for matching.
+   */
+  groupToRouteMatchMap: Map<string | undefined, RouteMatch>;
+  groupToMatchToMatchEntryMapMap: Map<
+    string | undefined,
+    Map<RouteMatch, RouteMatchEntry>
+  >;
+}
+
 interface InterUpdateData {
   reversedLeavingMatches: RouteMatch[];
   enteringAndUpdatingMatchSet: Set<RouteMatch>;
@@ -245,17 +549,50 @@ export class Router<TGroupName extends string = string> {
   /** @internal */
   private _segmentMatcher: SegmentMatcherCallback;
 
+  /** @internal */
+  private _onError: RouterErrorHandler;
+
+  /** @internal */
+  readonly _beforeHookErrorPolicy: RouterBeforeHookErrorPolicy;
+
+  /** @internal */
+  readonly _dataLoadingCancelerSet = new Set<() => void>();
+
+  /** @internal */
+  private _pathPolicy: RoutePathPolicy;
+
+  /** @internal */
+  private _canonicalRedirect: boolean;
+
+  /** @internal */
+  private _groupTemplateToSchemaMap = new Map<string, RootRouteSchema>();
+
+  /**
+   * Instances of group templates created by `$instance()`, which are added
+   * once matched by a committed navigation.
+   * @internal
+   */
+  private _pendingGroupInstanceMap = new Map<string, RouteMatch>();
+
+  /** @internal */
+  readonly _parallelEncoding: IParallelEncoding;
+
   /** @internal */
   private _snapshot: RouterHistorySnapshot | undefined;
 
   /** @internal */
   private _nextSnapshot: RouterHistorySnapshot | undefined;
 
+  /** @internal */
+  private _pendingRedirect: PendingRedirect | undefined;
+
   /** @internal */
   private _source: RouteSource = observable({
     groupToMatchToMatchEntryMapMap: new Map(),
     queryMap: new Map(),
     pathMap: new Map(),
+    unmatchedPathMap: new Map(),
+    hash: '',
   });
 
   /** @internal */
@@ -264,6 +601,8 @@ export class Router<TGroupName extends string = string> {
     groupToMatchToMatchEntryMapMap: new Map(),
     queryMap: new Map(),
     pathMap: new Map(),
+    unmatchedPathMap: new Map(),
+    hash: '',
   });
 
   /** @internal */
@@ -276,12 +615,52 @@ export class Router<TGroupName extends string = string> {
   /** @internal */
   private _beforeLeaveHookCalledMatchSet = new Set<RouteMatch | undefined>();
 
-  constructor(history: RouterHistory, {segmentMatcher}: RouterOptions = {}) {
+  /** @internal */
+  private _historyListenerRemovalHandler: HistoryChangeCallbackRemovalHandler;
+
+  /** @internal */
+  private _disposed = false;
+
+  /** @internal */
+  private _eventTypeToListenerSetDict: RouterEventListenerSetDict<
+    TGroupName
+  > = {
+    start: new Set(),
+    before: new Set(),
+    will: new Set(),
+    after: new Set(),
+    revert: new Set(),
+    complete: new Set(),
+    error: new Set(),
+  };
+
+  constructor(
+    history: RouterHistory,
+    {
+      segmentMatcher,
+      onError = DEFAULT_ERROR_HANDLER,
+      beforeHookErrorPolicy = 'continue',
+      caseInsensitive = false,
+      trailingSlash = 'lenient',
+      collapseSlashes = false,
+      canonicalRedirect = false,
+      parallelEncoding = DEFAULT_PARALLEL_ENCODING,
+    }: RouterOptions = {},
+  ) {
     this._history = history;
 
     this._segmentMatcher = segmentMatcher || DEFAULT_SEGMENT_MATCHER_CALLBACK;
+    this._onError = onError;
+    this._beforeHookErrorPolicy = beforeHookErrorPolicy;
+    this._pathPolicy = {caseInsensitive, trailingSlash, collapseSlashes};
+    this._canonicalRedirect = canonicalRedirect;
+    this._parallelEncoding = parallelEncoding;
+
+    this._historyListenerRemovalHandler = history.listen(this._onHistoryChange);
+  }
 
-    history.listen(this._onHistoryChange);
+  get $disposed(): boolean {
+    return this._disposed;
   }
 
   get $routing(): boolean {
@@ -296,12 +675,20 @@ export class Router<TGroupName extends string = string> {
     return new RouteBuilder(this, 'next');
   }
 
-  get $groups(): TGroupName[] {
-    return Array.from(this._groupToRouteMatchMap.keys()).filter(
-      (group): group is TGroupName => !!group,
+  /**
+   * Paths that are not matched by any route, or matched by a `$notFound`
+   * route, keyed by group (`undefined` for the primary route).
+   */
+  get $unmatched(): ReadonlyMap<TGroupName | undefined, string> {
+    return new Map(
+      this._source.unmatchedPathMap as Map<TGroupName | undefined, string>,
     );
   }
 
+  get $groups(): TGroupName[] {
+    return getGroups(this._groupToRouteMatchMap) as TGroupName[];
+  }
+
   $route<TPrimaryRouteSchema extends RootRouteSchema>(
     schema: TPrimaryRouteSchema,
   ): RootRouteMatchType<TPrimaryRouteSchema, undefined, TGroupName>;
@@ -327,17 +714,40 @@ export class Router<TGroupName extends string = string> {
       schema = groupOrSchema;
     }
 
-    let [routeMatch] = this._buildRouteMatch(group, '', undefined, undefined, {
-      $exact: true,
-      $match: '',
-      ...schema,
-    });
+    let routeMatch = this._buildRootRouteMatch(group, schema);
 
     this._groupToRouteMatchMap.set(group, routeMatch);
 
     return routeMatch;
   }
 
+  /**
+   * Declare a template of parallel route groups, instances of which (e.g.,
+   * `panel:1` and `panel:2` of template `panel`) are created on demand with
+   * their own matches, params and hooks.
+   */
+  $template<TRouteSchema extends RootRouteSchema>(
+    name: string,
+    schema: TRouteSchema,
+  ): RouteGroupTemplate<RootRouteMatchType<TRouteSchema, string, TGroupName>> {
+    if (name.includes(GROUP_INSTANCE_SEPARATOR)) {
+      throw new Error(
+        `Invalid group template name "${name}", expecting no "${GROUP_INSTANCE_SEPARATOR}"`,
+      );
+    }
+
+    if (
+      this._groupTemplateToSchemaMap.has(name) ||
+      this._groupToRouteMatchMap.has(name)
+    ) {
+      throw new Error(`Group "${name}" has already been defined`);
+    }
+
+    this._groupTemplateToSchemaMap.set(name, schema);
+
+    return new RouteGroupTemplate(name, this as Router);
+  }
+
   $ref(): string {
     return this.$current.$ref();
   }
@@ -368,167 +778,510 @@ export class Router<TGroupName extends string = string> {
     return new RouteBuilder(this, 'none');
   }
 
-  $push(ref: string, options?: RouterNavigateOptions): void {
-    this.$current.$(ref).$push(options);
-  }
+  /**
+   * Listen to navigation events of this router.
+   */
+  $on<TType extends RouterEventType>(
+    type: TType,
+    listener: RouterEventListener<RouterEventDict<TGroupName>[TType]>,
+  ): RouterEventRemovalCallback {
+    let listenerSet = this._eventTypeToListenerSetDict[type];
 
-  $replace(ref: string, options?: RouterNavigateOptions): void {
-    this.$current.$(ref).$replace(options);
-  }
+    listenerSet.add(listener);
 
-  /** @internal */
-  _push(ref: string, {onComplete}: RouterNavigateOptions = {}): void {
-    this._history
-      .push(ref, {navigateCompleteListener: onComplete})
-      .catch(console.error);
+    return () => {
+      listenerSet.delete(listener);
+    };
   }
 
-  /** @internal */
-  _replace(ref: string, {onComplete}: RouterNavigateOptions = {}): void {
-    this._history
-      .replace(ref, {navigateCompleteListener: onComplete})
-      .catch(console.error);
+  /**
+   * Get serializable route trees of all groups, starting with the primary
+   * one.
+   */
+  $routes(): RouteInfo[] {
+    return Array.from(this._groupToRouteMatchMap.values()).map(route =>
+      route._getInfo(),
+    );
   }
 
-  /** @internal */
-  private _onHistoryChange = (snapshot: RouterHistorySnapshot): void => {
-    this._nextSnapshot = snapshot;
+  /**
+   * Get a JSON manifest of `$routes()`.
+   */
+  $manifest(): string {
+    return JSON.stringify(this.$routes(), undefined, 2);
+  }
 
-    if (!this.$routing) {
-      this._beforeLeaveHookCalledMatchSet.clear();
-    }
+  /**
+   * Resolve a ref to the chains of route matches it would produce per group
+   * (`undefined` for the primary group), without touching history or calling
+   * hooks. Lazy children on the way will be loaded.
+   */
+  async $resolve(
+    ref: string,
+  ): Promise<Map<TGroupName | undefined, RouterResolvedMatch[]>> {
+    let {
+      queryMap,
+      groupToRouteMatchMap,
+      groupToMatchToMatchEntryMapMap,
+    } = await this._matchRef(ref);
+
+    let groupToMatchEntriesMap = new Map(
+      Array.from(
+        groupToMatchToMatchEntryMapMap,
+      ).map(([group, matchToMatchEntryMap]): [
+        string | undefined,
+        RouteMatchEntry[],
+      ] => [group, Array.from(matchToMatchEntryMap.values())]),
+    );
 
-    runInAction(() => {
-      this._routing++;
-    });
+    // Assign query IDs the same way as navigation does.
+    let queryKeyToIdMap = new Map(
+      _.flatMap(
+        Array.from(groupToRouteMatchMap).reverse(),
+        ([group, route]) => {
+          let entries = groupToMatchEntriesMap.get(group);
+          let rest = entries ? entries[entries.length - 1].match : route;
 
-    this._changing = this._changing
-      .then(() => this._asyncOnHistoryChange(snapshot))
-      .finally(() => {
-        runInAction(() => {
-          this._routing--;
-        });
-      })
-      .catch(console.error);
-  };
+          return [...rest._refQueryKeyToIdMap];
+        },
+      ),
+    );
 
-  /** @internal */
-  private _asyncOnHistoryChange = async (
-    nextSnapshot: RouterHistorySnapshot,
-  ): Promise<void> => {
-    if (this._isNextSnapshotOutDated(nextSnapshot)) {
-      return;
-    }
+    let sourceQueryMap = new Map(
+      _.compact(
+        Array.from(queryMap).map(([key, value]):
+          | [string, RouteSourceQuery]
+          | undefined =>
+          queryKeyToIdMap.has(key)
+            ? [key, {id: queryKeyToIdMap.get(key)!, value}]
+            : undefined,
+        ),
+      ),
+    );
 
-    let {ref, data} = getActiveHistoryEntry(nextSnapshot);
+    return new Map(
+      Array.from(groupToMatchEntriesMap).map(([group, entries]): [
+        TGroupName | undefined,
+        RouterResolvedMatch[],
+      ] => {
+        let segmentDict: GeneralParamDict = {};
+
+        let resolvedMatches = entries.map(
+          ({match, segment, exact}): RouterResolvedMatch => {
+            segmentDict = {...segmentDict, ...match._parseSegment(segment)};
+
+            return {
+              route: match,
+              segment,
+              exact,
+              params: {
+                ...segmentDict,
+                ...match._parseQuery(sourceQueryMap),
+              },
+            };
+          },
+        );
 
-    let navigateCompleteListener = data && data.navigateCompleteListener;
+        return [group as TGroupName | undefined, resolvedMatches];
+      }),
+    );
+  }
 
-    let {pathname, search} = parseRef(ref);
+  $push(
+    ref: string,
+    options?: RouterNavigateOptions,
+  ): Promise<RouterNavigateResult> {
+    return this.$current.$(ref).$push(options);
+  }
 
-    let snapshot = this._snapshot;
+  $replace(
+    ref: string,
+    options?: RouterNavigateOptions,
+  ): Promise<RouterNavigateResult> {
+    return this.$current.$(ref).$replace(options);
+  }
 
-    if (snapshot && _.isEqual(snapshot, nextSnapshot)) {
+  /**
+   * Stop listening to history changes, dispose reactions and services of all
+   * routes. Navigations in progress will be considered superseded, and
+   * further navigations will be rejected.
+   */
+  $dispose(): void {
+    if (this._disposed) {
       return;
     }
 
-    let queryMap = parseSearch(search);
+    this._disposed = true;
 
-    let pathMap = new Map<string | undefined, string>();
+    this._historyListenerRemovalHandler();
 
-    pathMap.set(undefined, pathname || '/');
+    for (let routeMatch of [
+      ...this._groupToRouteMatchMap.values(),
+      ...this._pendingGroupInstanceMap.values(),
+    ]) {
+      routeMatch._dispose();
+    }
+  }
 
-    let groups = this.$groups;
+  /** @internal */
+  _push(
+    ref: string,
+    {onComplete}: RouterNavigateOptions = {},
+  ): Promise<RouterNavigateResult> {
+    if (this._disposed) {
+      return Promise.reject(new Error('Router has been disposed'));
+    }
 
-    // Extract group route paths in query
-    for (let group of groups) {
-      let key = `_${group}`;
+    return new Promise((resolve, reject) => {
+      this._history
+        .push(ref, {
+          navigateCompleteListener: onComplete,
+          navigateResultListener: {resolve},
+        })
+        .catch(reject);
+    });
+  }
 
-      if (!queryMap.has(key)) {
-        continue;
-      }
+  /** @internal */
+  _replace(
+    ref: string,
+    {onComplete}: RouterNavigateOptions = {},
+  ): Promise<RouterNavigateResult> {
+    if (this._disposed) {
+      return Promise.reject(new Error('Router has been disposed'));
+    }
 
-      let path = queryMap.get(key);
+    return new Promise((resolve, reject) => {
+      this._history
+        .replace(ref, {
+          navigateCompleteListener: onComplete,
+          navigateResultListener: {resolve},
+        })
+        .catch(reject);
+    });
+  }
 
-      if (path) {
-        pathMap.set(group, path);
-      }
+  /** @internal */
+  _attach(parent: RouteMatch, schemaDict: RouteSchemaDict): Dict<RouteMatch> {
+    let existingChildren = parent._children ?? [];
 
-      queryMap.delete(key);
+    for (let routeName of Object.keys(schemaDict)) {
+      if (
+        parent._attachedChildMap.has(routeName) ||
+        existingChildren.some(child => child.$name === routeName)
+      ) {
+        throw new Error(
+          `Route "${routeName}" has already been defined under "${parent.$name}"`,
+        );
+      }
     }
 
-    // Match parallel routes
-    let groupToMatchEntriesMap = new Map<
-      string | undefined,
-      RouteMatchEntry[]
-    >();
+    this._attachChildren(parent, schemaDict, true);
 
-    let groupToRouteMatchMap = this._groupToRouteMatchMap;
+    this._rematch();
 
-    for (let [group, path] of pathMap) {
-      let routeMatch = groupToRouteMatchMap.get(group)!;
+    return _.fromPairs(
+      Object.keys(schemaDict).map(routeName => [
+        routeName,
+        parent._attachedChildMap.get(routeName)!,
+      ]),
+    );
+  }
 
-      let routeMatchEntries = this._match([routeMatch], path) || [];
+  /** @internal */
+  _detach(parent: RouteMatch, routeNames: string[]): void {
+    let matchingParent = parent.$next;
 
-      if (!routeMatchEntries.length) {
-        continue;
-      }
+    let attachedChildMap = parent._attachedChildMap;
 
-      let [{match}] = routeMatchEntries;
+    let routeMatches = _.compact(
+      routeNames.map(routeName => attachedChildMap.get(routeName)),
+    );
 
-      if (match.$group !== group) {
-        continue;
-      }
+    if (!routeMatches.length) {
+      return;
+    }
 
-      groupToMatchEntriesMap.set(group, routeMatchEntries);
+    parent._children = _.difference(parent._children!, routeMatches);
+    matchingParent._children = _.difference(
+      matchingParent._children!,
+      routeMatches.map(routeMatch => routeMatch.$next),
+    );
+
+    for (let routeName of routeNames) {
+      attachedChildMap.delete(routeName);
     }
 
-    // Check primary match parallel options
-    let groupToMatchToMatchEntryMapMap = new Map<
-      string | undefined,
-      Map<RouteMatch, RouteMatchEntry>
-    >();
+    this._rematch();
 
-    let primaryMatchEntries = groupToMatchEntriesMap.get(undefined);
+    // Dispose after the rematch so that leave hooks of detached routes can
+    // still be called.
+    this._changing = this._changing.then(() => {
+      for (let routeMatch of routeMatches) {
+        routeMatch._dispose();
+      }
+    });
+  }
 
-    {
-      let primaryMatch =
-        primaryMatchEntries?.[primaryMatchEntries.length - 1].match;
+  /** @internal */
+  async _prefetch(ref: string): Promise<void> {
+    let resolved: Map<TGroupName | undefined, RouterResolvedMatch[]>;
 
-      let options = primaryMatch?._parallel;
+    try {
+      resolved = await this.$resolve(ref);
+    } catch (error) {
+      this._handleError(error, undefined, 'prefetch', ref);
+      return;
+    }
 
-      let {groups = [], matches = []} = options || {};
+    // Instances of group templates that do not exist yet (and are not created
+    // by `$instance()`) are built only for resolving, and there is nothing to
+    // prefetch for them.
+    let resolvedMatches = _.flatten(
+      Array.from(resolved)
+        .filter(
+          ([group]) =>
+            this._groupToRouteMatchMap.has(group) ||
+            (group !== undefined && this._pendingGroupInstanceMap.has(group)),
+        )
+        .map(([, resolvedMatches]) => resolvedMatches),
+    );
 
-      for (let [group, entries] of groupToMatchEntriesMap) {
-        if (
-          !group ||
-          !options ||
-          groups.includes(group) ||
-          entries.some(({match}) => matches.includes(match))
-        ) {
-          groupToMatchToMatchEntryMapMap.set(
-            group,
-            new Map(
-              entries.map((entry): [RouteMatch, RouteMatchEntry] => [
-                entry.match,
-                entry,
-              ]),
-            ),
-          );
+    await Promise.all(
+      resolvedMatches.map(({route, params}) =>
+        Promise.all([route._prefetch(params), this._loadChildren(route)]).catch(
+          error => {
+            this._handleError(error, route, 'prefetch', ref);
+          },
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Whether a group exists or is a valid instance name of a group template.
+   * @internal
+   */
+  _isGroup(group: string): boolean {
+    if (this._groupToRouteMatchMap.has(group)) {
+      return true;
+    }
+
+    let instance = parseGroupInstanceName(group);
+
+    return !!instance && this._groupTemplateToSchemaMap.has(instance.template);
+  }
+
+  /** @internal */
+  _instantiateGroup(template: string, id: string): RouteMatch {
+    let group = `${template}${GROUP_INSTANCE_SEPARATOR}${id}`;
+
+    let routeMatch =
+      this._groupToRouteMatchMap.get(group) ??
+      this._pendingGroupInstanceMap.get(group);
+
+    if (!routeMatch) {
+      routeMatch = this._buildGroupInstance(group);
+      this._pendingGroupInstanceMap.set(group, routeMatch);
+    }
+
+    return routeMatch;
+  }
+
+  /** @internal */
+  _getGroupInstanceIds(template: string): string[] {
+    let ids: string[] = [];
+
+    for (let [group, matchToMatchEntryMap] of this._source
+      .groupToMatchToMatchEntryMapMap) {
+      let instance = group && parseGroupInstanceName(group);
+
+      // Groups being matched by a navigation are added with empty maps.
+      if (
+        instance &&
+        instance.template === template &&
+        matchToMatchEntryMap?.size
+      ) {
+        ids.push(instance.id);
+      }
+    }
+
+    return ids;
+  }
+
+  /** @internal */
+  _handleError(
+    error: unknown,
+    route: RouteMatch | undefined,
+    phase: RouterErrorPhase,
+    ref?: string,
+  ): RouterErrorContext {
+    let snapshot = this._nextSnapshot;
+
+    let context: RouterErrorContext = {
+      route,
+      phase,
+      ref: ref ?? (snapshot && getActiveHistoryEntry(snapshot).ref),
+    };
+
+    this._onError(error, context);
+
+    return context;
+  }
+
+  /** @internal */
+  private _onHistoryChange = (
+    snapshot: RouterHistorySnapshot,
+    rematch = false,
+  ): void => {
+    if (snapshot !== this._nextSnapshot) {
+      // Data loading of the navigation being superseded is no longer needed.
+      for (let canceler of Array.from(this._dataLoadingCancelerSet)) {
+        canceler();
+      }
+    }
+
+    this._nextSnapshot = snapshot;
+
+    if (!this.$routing) {
+      this._beforeLeaveHookCalledMatchSet.clear();
+    }
+
+    runInAction(() => {
+      this._routing++;
+    });
+
+    let {ref, data} = getActiveHistoryEntry(snapshot);
+
+    // The navigation of the snapshot (if any) is settled by its own history
+    // change instead of a rematch.
+    let navigateResultListener =
+      data && !rematch ? data.navigateResultListener : undefined;
+
+    let redirectedRefs: string[] = [];
+
+    if (!rematch) {
+      let pendingRedirect = this._pendingRedirect;
+
+      this._pendingRedirect = undefined;
+
+      if (pendingRedirect && pendingRedirect.ref === ref) {
+        redirectedRefs = pendingRedirect.redirectedRefs;
+      }
+    }
+
+    this._changing = this._changing
+      .then(() => this._asyncOnHistoryChange(snapshot, rematch, redirectedRefs))
+      .then(
+        result => {
+          // No result if the navigation has been redirected, and it will be
+          // settled by the navigation it redirected to.
+          if (result && navigateResultListener) {
+            navigateResultListener.resolve(result);
+          }
+        },
+        error => {
+          this._emit('error', {ref, error});
+
+          if (navigateResultListener) {
+            navigateResultListener.resolve({
+              ...this._getNavigateResult('error'),
+              error,
+            });
+          }
+
+          throw error;
+        },
+      )
+      .finally(() => {
+        runInAction(() => {
+          this._routing--;
+        });
+      })
+      .catch(this._handleNavigationError);
+  };
+
+  /** @internal */
+  private _asyncOnHistoryChange = async (
+    nextSnapshot: RouterHistorySnapshot,
+    rematch: boolean,
+    redirectedRefs: string[],
+  ): Promise<RouterNavigateResult | undefined> => {
+    if (this._isNextSnapshotOutDated(nextSnapshot)) {
+      return this._getNavigateResult('superseded');
+    }
+
+    let {ref, data} = getActiveHistoryEntry(nextSnapshot);
+
+    let navigateCompleteListener =
+      data && !rematch ? data.navigateCompleteListener : undefined;
+
+    let snapshot = this._snapshot;
+
+    if (!rematch && snapshot && _.isEqual(snapshot, nextSnapshot)) {
+      return this._getNavigateResult('completed');
+    }
+
+    this._emit('start', {ref});
+
+    let {
+      queryMap,
+      pathMap,
+      hash,
+      unmatchedPathMap,
+      groupToRouteMatchMap,
+      groupToMatchToMatchEntryMapMap,
+    } = await this._matchRef(ref);
+
+    // Matching could be asynchronous if lazy children are being loaded.
+    if (this._isNextSnapshotOutDated(nextSnapshot)) {
+      return this._getNavigateResult('superseded');
+    }
+
+    if (
+      (this._canonicalRedirect ||
+        isAliasReplaceRequired(groupToMatchToMatchEntryMapMap)) &&
+      !rematch
+    ) {
+      let canonicalRef = getCanonicalRef(
+        this._parallelEncoding,
+        pathMap,
+        queryMap,
+        hash,
+        groupToMatchToMatchEntryMapMap,
+      );
+
+      if (canonicalRef !== undefined) {
+        let resultType = this._redirect(
+          nextSnapshot,
+          redirectedRefs,
+          this.$scratch().$(canonicalRef),
+        );
+
+        if (resultType === 'redirected') {
+          return undefined;
         }
+
+        this._emit('revert', {ref});
+
+        return this._getNavigateResult(resultType);
       }
     }
 
+    let groups = getGroups(groupToRouteMatchMap) as TGroupName[];
+
     let matchingSource = this._matchingSource;
 
     runInAction(() => {
       matchingSource.groupToMatchToMatchEntryMapMap = groupToMatchToMatchEntryMapMap;
       matchingSource.pathMap = pathMap;
+      matchingSource.unmatchedPathMap = unmatchedPathMap;
+      matchingSource.hash = hash;
 
       let matchingQueryKeyToIdMap = new Map(
         _.flatMap(
           Array.from(groupToRouteMatchMap.values()).reverse(),
-          route => [...route.$next.$rest._queryKeyToIdMap],
+          route => [...route.$next.$rest._refQueryKeyToIdMap],
         ),
       );
 
@@ -545,45 +1298,120 @@ export class Router<TGroupName extends string = string> {
       );
     });
 
-    let generalGroups = [undefined, ...groups];
+    if (!rematch) {
+      let redirectTarget = getRedirectTarget(groupToMatchToMatchEntryMapMap);
 
-    let interUpdateDataArray = await Promise.all(
-      generalGroups.map(async group =>
-        this._beforeUpdate(
+      if (redirectTarget !== undefined) {
+        let resultType = this._redirect(
           nextSnapshot,
-          group,
-          groupToMatchToMatchEntryMapMap.get(group),
-        ),
+          redirectedRefs,
+          redirectTarget,
+        );
+
+        if (resultType === 'redirected') {
+          return undefined;
+        }
+
+        this._emit('revert', {ref});
+
+        return this._getNavigateResult(resultType);
+      }
+    }
+
+    let generalGroups = [undefined, ...groups];
+
+    let interUpdateDataArray = generalGroups.map(group =>
+      this._prepareUpdate(group, groupToMatchToMatchEntryMapMap.get(group)),
+    );
+
+    let changes = new Map(
+      generalGroups.map((group, index): [
+        TGroupName | undefined,
+        RouterNavigateChanges,
+      ] => [group, getNavigateChanges(interUpdateDataArray[index])]),
+    );
+
+    this._emit('before', {ref, changes});
+
+    let abortedResultTypes = await Promise.all(
+      interUpdateDataArray.map(data =>
+        this._beforeUpdate(nextSnapshot, redirectedRefs, data),
       ),
     );
 
-    if (interUpdateDataArray.some(data => !data)) {
-      return;
+    let abortedResultType = abortedResultTypes.find(type => type !== undefined);
+
+    if (abortedResultType) {
+      // Instances of group templates built by this navigation are not added.
+      runInAction(() => {
+        for (let group of groups) {
+          if (!this._groupToRouteMatchMap.has(group)) {
+            this._source.groupToMatchToMatchEntryMapMap.delete(group);
+          }
+        }
+      });
+
+      if (abortedResultType === 'redirected') {
+        return undefined;
+      }
+
+      if (abortedResultType === 'reverted') {
+        this._emit('revert', {ref});
+      }
+
+      return this._getNavigateResult(abortedResultType);
     }
 
-    await Promise.all(
-      interUpdateDataArray.map(data => this._willUpdate(data!)),
-    );
+    // The navigation can no longer be aborted, add instances of group
+    // templates created by it.
+    for (let [group, routeMatch] of groupToRouteMatchMap) {
+      if (!this._groupToRouteMatchMap.has(group)) {
+        this._groupToRouteMatchMap.set(group, routeMatch);
+        this._pendingGroupInstanceMap.delete(group!);
+      }
+    }
+
+    this._emit('will', {ref, changes});
+
+    await Promise.all(interUpdateDataArray.map(data => this._willUpdate(data)));
 
     this._update(generalGroups);
 
     this._snapshot = nextSnapshot;
 
+    this._emit('after', {ref, changes});
+
     await Promise.all(
-      interUpdateDataArray.map(data => this._afterUpdate(data!)),
+      interUpdateDataArray.map(data => this._afterUpdate(data)),
     );
 
+    // Instances of group templates are disposed and removed once left or if
+    // not matched at all.
+    for (let group of groups) {
+      if (
+        parseGroupInstanceName(group) &&
+        !groupToMatchToMatchEntryMapMap.has(group)
+      ) {
+        this._removeGroupInstance(group);
+      }
+    }
+
     if (navigateCompleteListener) {
       navigateCompleteListener();
     }
+
+    this._emit('complete', {ref, changes});
+
+    return this._getNavigateResult(
+      redirectedRefs.length ? 'redirected' : 'completed',
+    );
   };
 
   /** @internal */
-  private async _beforeUpdate(
-    nextSnapshot: RouterHistorySnapshot,
+  private _prepareUpdate(
     group: string | undefined,
     matchToMatchEntryMap: Map<RouteMatch, RouteMatchEntry> | undefined,
-  ): Promise<InterUpdateData | undefined> {
+  ): InterUpdateData {
     if (!matchToMatchEntryMap) {
       matchToMatchEntryMap = new Map();
     }
@@ -639,6 +1467,25 @@ export class Router<TGroupName extends string = string> {
       }
     }
 
+    return {
+      reversedLeavingMatches,
+      enteringAndUpdatingMatchSet,
+      previousMatchSet,
+      descendantUpdatingMatchSet,
+    };
+  }
+
+  /** @internal */
+  private async _beforeUpdate(
+    nextSnapshot: RouterHistorySnapshot,
+    redirectedRefs: string[],
+    {
+      reversedLeavingMatches,
+      enteringAndUpdatingMatchSet,
+      previousMatchSet,
+      descendantUpdatingMatchSet,
+    }: InterUpdateData,
+  ): Promise<AbortedNavigateResultType | undefined> {
     let beforeLeaveHookCalledMatchSet = this._beforeLeaveHookCalledMatchSet;
 
     for (let match of reversedLeavingMatches) {
@@ -649,12 +1496,12 @@ export class Router<TGroupName extends string = string> {
       let result = await match._beforeLeave();
 
       if (this._isNextSnapshotOutDated(nextSnapshot)) {
-        return undefined;
+        return 'superseded';
       }
 
       if (!result) {
         this._revert();
-        return undefined;
+        return 'reverted';
       }
 
       beforeLeaveHookCalledMatchSet.add(match);
@@ -668,21 +1515,20 @@ export class Router<TGroupName extends string = string> {
         : await match._beforeEnter();
 
       if (this._isNextSnapshotOutDated(nextSnapshot)) {
-        return undefined;
+        return 'superseded';
       }
 
       if (!result) {
         this._revert();
-        return undefined;
+        return 'reverted';
+      }
+
+      if (result !== true) {
+        return this._redirect(nextSnapshot, redirectedRefs, result);
       }
     }
 
-    return {
-      reversedLeavingMatches,
-      enteringAndUpdatingMatchSet,
-      previousMatchSet,
-      descendantUpdatingMatchSet,
-    };
+    return undefined;
   }
 
   /** @internal */
@@ -714,6 +1560,8 @@ export class Router<TGroupName extends string = string> {
     let matchingSource = this._matchingSource;
 
     source.queryMap = matchingSource.queryMap;
+    source.unmatchedPathMap = matchingSource.unmatchedPathMap;
+    source.hash = matchingSource.hash;
 
     for (let group of generalGroups) {
       let path = matchingSource.pathMap.get(group)!;
@@ -754,9 +1602,97 @@ export class Router<TGroupName extends string = string> {
     }
   }
 
+  /** @internal */
+  private _handleNavigationError = (error: unknown): void => {
+    this._handleError(error, undefined, 'navigation');
+  };
+
+  /** @internal */
+  private _emit<TType extends RouterEventType>(
+    type: TType,
+    event: RouterEventDict<TGroupName>[TType],
+  ): void {
+    // TypeScript resolves the mapped type indexed by `TType` to a union of
+    // sets, thus the assertion.
+    let listenerSet = this._eventTypeToListenerSetDict[type] as Set<
+      RouterEventListener<RouterEventDict<TGroupName>[TType]>
+    >;
+
+    for (let listener of listenerSet) {
+      try {
+        listener(event);
+      } catch (error) {
+        this._handleNavigationError(error);
+      }
+    }
+  }
+
+  /** @internal */
+  private _attachChildren(
+    parent: RouteMatch,
+    schemaDict: RouteSchemaDict,
+    attached = false,
+  ): void {
+    let matchingParent = parent.$next;
+
+    let [routeMatches, nextRouteMatches] = this._buildRouteMatches(
+      parent.$group,
+      schemaDict,
+      parent,
+      matchingParent,
+      attached,
+    );
+
+    // Keep `$notFound` route the last one.
+    parent._children = insertBeforeNotFound(
+      parent._children ?? [],
+      routeMatches,
+    );
+    matchingParent._children = insertBeforeNotFound(
+      matchingParent._children ?? [],
+      nextRouteMatches,
+    );
+  }
+
+  /** @internal */
+  private _loadChildren(routeMatch: RouteMatch): Promise<void> {
+    let loader = routeMatch._childrenLoader;
+
+    if (!loader) {
+      return Promise.resolve();
+    }
+
+    if (!routeMatch._childrenLoadingPromise) {
+      routeMatch._childrenLoadingPromise = loader().then(
+        schemaDict => {
+          this._attachChildren(routeMatch, schemaDict);
+          routeMatch._childrenLoader = undefined;
+        },
+        error => {
+          // Allow loading again with later navigation.
+          routeMatch._childrenLoadingPromise = undefined;
+          throw error;
+        },
+      );
+    }
+
+    return routeMatch._childrenLoadingPromise;
+  }
+
+  /** @internal */
+  private _rematch(): void {
+    let snapshot = this._nextSnapshot;
+
+    if (!snapshot || this._disposed) {
+      return;
+    }
+
+    this._onHistoryChange(snapshot, true);
+  }
+
   /** @internal */
   private _isNextSnapshotOutDated(snapshot: RouterHistorySnapshot): boolean {
-    return this._nextSnapshot !== snapshot;
+    return this._disposed || this._nextSnapshot !== snapshot;
   }
 
   /** @internal */
@@ -764,19 +1700,190 @@ export class Router<TGroupName extends string = string> {
     let snapshot = this._snapshot;
 
     if (snapshot) {
-      this._history.restore(snapshot).catch(console.error);
+      this._history.restore(snapshot).catch(this._handleNavigationError);
     } else {
-      this._history.replace('/').catch(console.error);
+      this._history.replace('/').catch(this._handleNavigationError);
+    }
+  }
+
+  /** @internal */
+  private _redirect(
+    snapshot: RouterHistorySnapshot,
+    redirectedRefs: string[],
+    target: string | RouteBuilder,
+  ): 'redirected' | 'reverted' {
+    let {ref: currentRef, data} = getActiveHistoryEntry(snapshot);
+
+    let ref =
+      typeof target === 'string' ? this.$next.$(target).$ref() : target.$ref();
+
+    redirectedRefs = [...redirectedRefs, currentRef];
+
+    if (redirectedRefs.includes(ref) || redirectedRefs.length > MAX_REDIRECTS) {
+      let error = new Error(
+        `Redirect loop detected: ${[...redirectedRefs, ref].join(' -> ')}`,
+      );
+
+      // Reverting without a previous snapshot navigates to '/', which might
+      // lead to the same loop again, so fail the navigation instead.
+      if (!this._snapshot) {
+        throw error;
+      }
+
+      this._handleNavigationError(error);
+      this._revert();
+
+      return 'reverted';
+    }
+
+    this._pendingRedirect = {ref, redirectedRefs};
+
+    this._history.replace(ref, data).catch(this._handleNavigationError);
+
+    return 'redirected';
+  }
+
+  /** @internal */
+  private _getNavigateResult(
+    type: RouterNavigateResultType,
+  ): RouterNavigateResult {
+    let snapshot = type === 'superseded' ? this._nextSnapshot : this._snapshot;
+
+    return {
+      type,
+      ref: snapshot ? getActiveHistoryEntry(snapshot).ref : '/',
+    };
+  }
+
+  /** @internal */
+  private async _matchRef(ref: string): Promise<RefMatchResult> {
+    // Extract group route paths
+    let {ref: primaryRef, groupPathMap} = this._parallelEncoding.parse(
+      ref,
+      group => this._isGroup(group),
+    );
+
+    let groupToRouteMatchMap = new Map(this._groupToRouteMatchMap);
+
+    // Instances of group templates in the ref that do not exist yet are built
+    // (or taken from `$instance()`) for matching, and added only if the
+    // navigation is committed.
+    for (let group of groupPathMap.keys()) {
+      if (!groupToRouteMatchMap.has(group)) {
+        groupToRouteMatchMap.set(
+          group,
+          this._pendingGroupInstanceMap.get(group) ??
+            this._buildGroupInstance(group),
+        );
+      }
+    }
+
+    let groups = getGroups(groupToRouteMatchMap);
+
+    let {pathname, search, hash} = parseRef(primaryRef);
+
+    let queryMap = parseSearch(search);
+
+    let pathMap = new Map<string | undefined, string>();
+
+    pathMap.set(undefined, pathname || '/');
+
+    for (let group of groups) {
+      let path = groupPathMap.get(group);
+
+      if (path) {
+        pathMap.set(group, path);
+      }
+    }
+
+    // Match parallel routes
+    let groupToMatchEntriesMap = new Map<
+      string | undefined,
+      RouteMatchEntry[]
+    >();
+
+    let unmatchedPathMap = new Map<string | undefined, string>();
+
+    for (let [group, path] of pathMap) {
+      let routeMatch = groupToRouteMatchMap.get(group)!;
+
+      let routeMatchEntries = (await this._match([routeMatch], path)) || [];
+
+      if (!routeMatchEntries.length) {
+        unmatchedPathMap.set(group, path);
+        continue;
+      }
+
+      let [{match}] = routeMatchEntries;
+
+      if (match.$group !== group) {
+        continue;
+      }
+
+      if (routeMatchEntries[routeMatchEntries.length - 1].match._notFound) {
+        unmatchedPathMap.set(group, path);
+      }
+
+      groupToMatchEntriesMap.set(group, routeMatchEntries);
     }
+
+    // Check primary match parallel options
+    let groupToMatchToMatchEntryMapMap = new Map<
+      string | undefined,
+      Map<RouteMatch, RouteMatchEntry>
+    >();
+
+    let primaryMatchEntries = groupToMatchEntriesMap.get(undefined);
+
+    {
+      let primaryMatch =
+        primaryMatchEntries?.[primaryMatchEntries.length - 1].match;
+
+      let options = primaryMatch?._parallel;
+
+      let {groups = [], matches = []} = options || {};
+
+      for (let [group, entries] of groupToMatchEntriesMap) {
+        // Instances of a group template are whitelisted by the template name.
+        let template = group && parseGroupInstanceName(group)?.template;
+
+        if (
+          !group ||
+          !options ||
+          groups.includes(group) ||
+          (template && groups.includes(template)) ||
+          entries.some(({match}) => matches.includes(match))
+        ) {
+          groupToMatchToMatchEntryMapMap.set(
+            group,
+            new Map(
+              entries.map((entry): [RouteMatch, RouteMatchEntry] => [
+                entry.match,
+                entry,
+              ]),
+            ),
+          );
+        }
+      }
+    }
+
+    return {
+      queryMap,
+      pathMap,
+      hash,
+      unmatchedPathMap,
+      groupToRouteMatchMap,
+      groupToMatchToMatchEntryMapMap,
+    };
   }
 
   /** @internal */
-  private _match(
+  private async _match(
     routeMatches: RouteMatch[],
     upperRest: string,
-  ): RouteMatchEntry[] | undefined {
+  ): Promise<RouteMatchEntry[] | undefined> {
     for (let routeMatch of routeMatches) {
-      let {matched, exactlyMatched, segment, rest} = routeMatch._match(
+      let {matched, exactlyMatched, segment, rest, aliased} = routeMatch._match(
         upperRest,
       );
 
@@ -791,11 +1898,14 @@ export class Router<TGroupName extends string = string> {
             segment: segment!,
             exact: exactlyMatched,
             rest,
+            aliased,
           },
         ];
       }
 
-      let result = this._match(routeMatch._children || [], rest);
+      await this._loadChildren(routeMatch);
+
+      let result = await this._match(routeMatch._children || [], rest);
 
       if (!result) {
         continue;
@@ -807,6 +1917,7 @@ export class Router<TGroupName extends string = string> {
           segment: segment!,
           exact: exactlyMatched,
           rest,
+          aliased,
         },
         ...result,
       ];
@@ -821,6 +1932,7 @@ export class Router<TGroupName extends string = string> {
     schemaDict: RouteSchemaDict,
     parent: RouteMatch,
     matchingParent: NextRouteMatch,
+    attached = false,
   ): [RouteMatch[], NextRouteMatch[]] {
     return Object.entries(schemaDict).reduce<[RouteMatch[], NextRouteMatch[]]>(
       ([routeMatches, nextRouteMatches], [routeName, schema]) => {
@@ -828,16 +1940,54 @@ export class Router<TGroupName extends string = string> {
           schema = {};
         }
 
-        let [routeMatch, nextRouteMatch] = this._buildRouteMatch(
-          group,
-          routeName,
-          parent,
-          matchingParent,
-          schema,
-        );
+        let pattern = schema.$match;
+
+        // Params of a path pattern cannot be typed from the route name.
+        if (pattern === undefined && isPathPattern(routeName)) {
+          throw new Error(
+            `Invalid route name "${routeName}", path patterns can only be used as \`$match\``,
+          );
+        }
+
+        let routeMatchPairs: [
+          [RouteMatch, NextRouteMatch],
+          [RouteMatch, NextRouteMatch],
+        ];
+
+        if (typeof pattern === 'string' && isPathPattern(pattern)) {
+          routeMatchPairs = this._buildPathPatternRouteMatches(
+            group,
+            routeName,
+            parent,
+            matchingParent,
+            pattern,
+            schema,
+          );
+        } else {
+          let routeMatchPair = this._buildRouteMatch(
+            group,
+            routeName,
+            parent,
+            matchingParent,
+            schema,
+          );
+
+          routeMatchPairs = [routeMatchPair, routeMatchPair];
+        }
+
+        let [
+          [routeMatch, nextRouteMatch],
+          [tailRouteMatch, tailNextRouteMatch],
+        ] = routeMatchPairs;
 
-        (parent as any)[routeName] = routeMatch;
-        (matchingParent as any)[routeName] = nextRouteMatch;
+        // Routes attached at runtime are kept in a map instead of being
+        // exposed as properties, so that they can be detached.
+        if (attached) {
+          parent._attachedChildMap.set(routeName, routeMatch);
+        } else {
+          (parent as any)[routeName] = tailRouteMatch;
+          (matchingParent as any)[routeName] = tailNextRouteMatch;
+        }
 
         return [
           [...routeMatches, routeMatch],
@@ -848,6 +1998,114 @@ export class Router<TGroupName extends string = string> {
     );
   }
 
+  /**
+   * Build a chain of route matches for a path pattern, returns the head and
+   * the tail.
+   * @internal
+   */
+  private _buildPathPatternRouteMatches(
+    group: string | undefined,
+    routeName: string,
+    parent: RouteMatch,
+    matchingParent: NextRouteMatch,
+    pattern: string,
+    schema: RouteSchema,
+  ): [[RouteMatch, NextRouteMatch], [RouteMatch, NextRouteMatch]] {
+    let segments = parsePathPattern(pattern);
+
+    if (
+      !segments.length ||
+      segments.some(
+        ({optional}, index) => optional && index !== segments.length - 1,
+      ) ||
+      segments[0].optional
+    ) {
+      throw new Error(
+        `Invalid path pattern "${pattern}", only the last segment other than the first one can be optional`,
+      );
+    }
+
+    let head: [RouteMatch, NextRouteMatch] | undefined;
+    let tail: [RouteMatch, NextRouteMatch] | undefined;
+
+    for (let [index, {key, match}] of segments.entries()) {
+      let last = index === segments.length - 1;
+
+      let [routeMatch, nextRouteMatch] = this._buildRouteMatch(
+        group,
+        routeName,
+        tail ? tail[0] : parent,
+        tail ? tail[1] : matchingParent,
+        last
+          ? {...schema, $match: match}
+          : {
+              $match: match,
+              // Allow exact match if the next (last) segment is optional.
+              $exact: segments[index + 1].optional,
+              $caseInsensitive: schema.$caseInsensitive,
+              $trailingSlash: schema.$trailingSlash,
+              $collapseSlashes: schema.$collapseSlashes,
+            },
+        // Keys of static segments are only used for building paths and must
+        // be unique along the chain.
+        {segmentKey: key ?? `${routeName}:${index}`},
+      );
+
+      if (tail) {
+        tail[0]._children = [routeMatch];
+        tail[1]._children = [nextRouteMatch];
+      }
+
+      tail = [routeMatch, nextRouteMatch];
+
+      if (!head) {
+        head = tail;
+      }
+    }
+
+    return [head!, tail!];
+  }
+
+  /** @internal */
+  private _buildRootRouteMatch(
+    group: string | undefined,
+    schema: RootRouteSchema,
+  ): RouteMatch {
+    let [routeMatch] = this._buildRouteMatch(group, '', undefined, undefined, {
+      $exact: true,
+      $match: '',
+      ...schema,
+    });
+
+    return routeMatch;
+  }
+
+  /** @internal */
+  private _buildGroupInstance(group: string): RouteMatch {
+    let instance = parseGroupInstanceName(group);
+    let schema =
+      instance && this._groupTemplateToSchemaMap.get(instance.template);
+
+    if (!schema) {
+      throw new Error(`Invalid group instance "${group}"`);
+    }
+
+    return this._buildRootRouteMatch(group, schema);
+  }
+
+  /** @internal */
+  private _removeGroupInstance(group: string): void {
+    let routeMatch = this._groupToRouteMatchMap.get(group)!;
+
+    this._groupToRouteMatchMap.delete(group);
+
+    runInAction(() => {
+      this._source.groupToMatchToMatchEntryMapMap.delete(group);
+    });
+
+    routeMatch._dispose();
+  }
+
   /** @internal */
   private _buildRouteMatch(
     group: string | undefined,
@@ -856,12 +2114,21 @@ export class Router<TGroupName extends string = string> {
     matchingParent: NextRouteMatch | undefined,
     {
       $match: match = this._segmentMatcher(routeName),
-      $exact: exact = false,
+      $alias: alias,
+      $aliasReplace: aliasReplace,
+      $codec: codec,
+      $redirect: redirect,
+      $exact: exact = redirect !== undefined,
       $query: queryDict,
       $children: children,
+      $notFound: notFound,
       $extension: extension,
       $metadata: metadata,
+      $caseInsensitive: caseInsensitive,
+      $trailingSlash: trailingSlash,
+      $collapseSlashes: collapseSlashes,
     }: RouteSchema,
+    internalOptions: Pick<RouteMatchOptions, 'segmentKey' | 'notFound'> = {},
   ): [RouteMatch, NextRouteMatch] {
     let source = this._source;
     let matchingSource = this._matchingSource;
@@ -869,12 +2136,26 @@ export class Router<TGroupName extends string = string> {
 
     let query = new Map(Object.entries(queryDict ?? {}));
 
+    let upperPathPolicy = parent ? parent._pathPolicy : this._pathPolicy;
+
+    let pathPolicy: RoutePathPolicy = {
+      caseInsensitive: caseInsensitive ?? upperPathPolicy.caseInsensitive,
+      trailingSlash: trailingSlash ?? upperPathPolicy.trailingSlash,
+      collapseSlashes: collapseSlashes ?? upperPathPolicy.collapseSlashes,
+    };
+
     let options: RouteMatchOptions = {
       match,
       query,
       exact,
       group,
       metadata,
+      codec,
+      pathPolicy,
+      alias: alias === undefined || Array.isArray(alias) ? alias : [alias],
+      aliasReplace,
+      redirect,
+      ...internalOptions,
     };
 
     let routeMatch = new RouteMatch(
@@ -899,7 +2180,9 @@ export class Router<TGroupName extends string = string> {
 
     (routeMatch as any).$next = nextRouteMatch;
 
-    if (children) {
+    if (typeof children === 'function') {
+      routeMatch._childrenLoader = children;
+    } else if (children) {
       let [childRouteMatches, childNextRouteMatches] = this._buildRouteMatches(
         group,
         children,
@@ -911,6 +2194,208 @@ export class Router<TGroupName extends string = string> {
       nextRouteMatch._children = childNextRouteMatches;
     }
 
+    if (notFound) {
+      let [notFoundRouteMatch, notFoundNextRouteMatch] = this._buildRouteMatch(
+        group,
+        NOT_FOUND_ROUTE_NAME,
+        routeMatch,
+        nextRouteMatch,
+        {
+          ...(typeof notFound === 'object' ? notFound : undefined),
+          $match: RouteMatch.REST,
+        },
+        {segmentKey: NOT_FOUND_SEGMENT_KEY, notFound: true},
+      );
+
+      (routeMatch as any)[NOT_FOUND_ROUTE_NAME] = notFoundRouteMatch;
+      (nextRouteMatch as any)[NOT_FOUND_ROUTE_NAME] = notFoundNextRouteMatch;
+
+      // `$notFound` route goes last so it is tried only if no other children
+      // match.
+      routeMatch._children = [
+        ...(routeMatch._children ?? []),
+        notFoundRouteMatch,
+      ];
+      nextRouteMatch._children = [
+        ...(nextRouteMatch._children ?? []),
+        notFoundNextRouteMatch,
+      ];
+    }
+
     return [routeMatch, nextRouteMatch];
   }
 }
+
+function getNavigateChanges({
+  reversedLeavingMatches,
+  enteringAndUpdatingMatchSet,
+  previousMatchSet,
+}: InterUpdateData): RouterNavigateChanges {
+  let enteringAndUpdatingMatches = Array.from(enteringAndUpdatingMatchSet);
+
+  return {
+    entered: enteringAndUpdatingMatches.filter(
+      match => !previousMatchSet.has(match),
+    ),
+    updated: enteringAndUpdatingMatches.filter(match =>
+      previousMatchSet.has(match),
+    ),
+    left: reversedLeavingMatches,
+  };
+}
+
+/**
+ * Get the canonical ref of matched paths, or `undefined` if they are already
+ * canonical.
+ */
+function getCanonicalRef(
+  parallelEncoding: IParallelEncoding,
+  pathMap: Map<string | undefined, string>,
+  queryMap: Map<string, QueryValue>,
+  hash: string,
+  groupToMatchToMatchEntryMapMap: Map<
+    string | undefined,
+    Map<RouteMatch, RouteMatchEntry>
+  >,
+): string | undefined {
+  let canonicalPathMap = new Map(pathMap);
+
+  for (let [group, matchToMatchEntryMap] of groupToMatchToMatchEntryMapMap) {
+    let entries = Array.from(matchToMatchEntryMap.values());
+
+    if (entries[entries.length - 1].match._notFound) {
+      continue;
+    }
+
+    // Entries after an exact match are matched by `$exact` default rest path,
+    // which is not part of the path.
+    let exactIndex = entries.findIndex(entry => entry.exact);
+
+    let segments = entries
+      .slice(0, exactIndex + 1)
+      .map(entry => entry.segment)
+      .filter(segment => !!segment);
+
+    canonicalPathMap.set(group, `/${segments.join('/')}`);
+  }
+
+  if (_.isEqual(canonicalPathMap, pathMap)) {
+    return undefined;
+  }
+
+  return buildRef(parallelEncoding, canonicalPathMap, queryMap, hash);
+}
+
+function isAliasReplaceRequired(
+  groupToMatchToMatchEntryMapMap: Map<
+    string | undefined,
+    Map<RouteMatch, RouteMatchEntry>
+  >,
+): boolean {
+  return Array.from(
+    groupToMatchToMatchEntryMapMap.values(),
+  ).some(matchToMatchEntryMap =>
+    Array.from(matchToMatchEntryMap.values()).some(
+      ({match, aliased}) => aliased && match._aliasReplace,
+    ),
+  );
+}
+
+/**
+ * Get the redirect target of the first exactly matched route with `$redirect`.
+ */
+function getRedirectTarget(
+  groupToMatchToMatchEntryMapMap: Map<
+    string | undefined,
+    Map<RouteMatch, RouteMatchEntry>
+  >,
+): string | RouteBuilder | undefined {
+  for (let matchToMatchEntryMap of groupToMatchToMatchEntryMapMap.values()) {
+    for (let {match, exact} of matchToMatchEntryMap.values()) {
+      let redirect = match._redirect;
+
+      if (!exact || redirect === undefined) {
+        continue;
+      }
+
+      return typeof redirect === 'function'
+        ? redirect(match.$next.$params)
+        : redirect;
+    }
+  }
+
+  return undefined;
+}
+
+interface GroupInstance {
+  template: string;
+  id: string;
+}
+
+function getGroups(
+  groupToRouteMatchMap: Map<string | undefined, RouteMatch>,
+): string[] {
+  return Array.from(groupToRouteMatchMap.keys()).filter(
+    (group): group is string => !!group,
+  );
+}
+
+/**
+ * Parse a group name like `panel:1` into template and ID, or `undefined` if
+ * it is not a group instance name.
+ */
+function parseGroupInstanceName(group: string): GroupInstance | undefined {
+  let index = group.indexOf(GROUP_INSTANCE_SEPARATOR);
+
+  if (index <= 0 || index === group.length - 1) {
+    return undefined;
+  }
+
+  return {
+    template: group.slice(0, index),
+    id: group.slice(index + 1),
+  };
+}
+
+interface PathPatternSegment {
+  /**
+   * Parameter key, `undefined` for static segments.
+   */
+  key: string | undefined;
+  match: string | RegExp;
+  optional: boolean;
+}
+
+function isPathPattern(pattern: string): boolean {
+  return pattern
+    .split('/')
+    .some(segment => PATH_PATTERN_PARAM_SEGMENT_REGEX.test(segment));
+}
+
+function parsePathPattern(pattern: string): PathPatternSegment[] {
+  return pattern
+    .split('/')
+    .filter(segment => !!segment)
+    .map(segment => {
+      let groups = PATH_PATTERN_PARAM_SEGMENT_REGEX.exec(segment);
+
+      return groups
+        ? {key: groups[1], match: RouteMatch.SEGMENT, optional: !!groups[2]}
+        : {key: undefined, match: segment, optional: false};
+    });
+}
+
+function insertBeforeNotFound<T extends RouteMatchShared>(
+  children: T[],
+  newChildren: T[],
+): T[] {
+  let notFoundChildren = children.filter(
+    child => child.$name === NOT_FOUND_ROUTE_NAME,
+  );
+
+  return [
+    ..._.difference(children, notFoundChildren),
+    ...newChildren,
+    ...notFoundChildren,
+  ];
+}
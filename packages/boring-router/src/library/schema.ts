@@ -1,7 +1,10 @@
 import {Dict} from 'tslang';
 
+import {RouteQueryDeclaration} from './query';
+import {RouteBuilder} from './route-builder';
+
 export interface RootRouteSchema {
-  $query?: Dict<string | symbol | true>;
+  $query?: Dict<RouteQueryDeclaration>;
   /**
    * Whether to allow exact match while if this route has children. Only
    * applies if this route has children.
@@ -10,18 +13,126 @@ export interface RootRouteSchema {
    * route is exactly matched.
    */
   $exact?: boolean | string;
-  $children?: RouteSchemaDict;
+  /**
+   * Child routes, or a loader that resolves to child routes asynchronously.
+   * A lazy subtree is loaded the first time matching goes into it, and the
+   * navigation waits until it is loaded.
+   */
+  $children?: RouteSchemaDict | RouteChildrenLoader;
+  /**
+   * Whether to add a fallback child route `$notFound` that matches the rest
+   * path when no other children match, with the unmatched rest path as
+   * parameter `rest`.
+   */
+  $notFound?: NotFoundRouteSchema | boolean;
+  /**
+   * Redirect target if this route is exactly matched, applied with `replace`
+   * before any hooks run. Setting this option allows exact match by default.
+   */
+  $redirect?: RouteRedirect;
+  $extension?: object;
+  $metadata?: object;
+  /**
+   * Whether to match string `$match` patterns case-insensitively, overrides
+   * the router option for this route and its descendants.
+   */
+  $caseInsensitive?: boolean;
+  /**
+   * Trailing slash policy, overrides the router option for this route and its
+   * descendants.
+   */
+  $trailingSlash?: RouteTrailingSlashPolicy;
+  /**
+   * Whether to treat duplicate slashes after this route's segment as one,
+   * overrides the router option for this route and its descendants.
+   */
+  $collapseSlashes?: boolean;
+}
+
+/**
+ * - `lenient`: a path with a trailing slash (e.g., `/foo/`) matches the same
+ *   as the one without (`/foo`).
+ * - `strict`: a path with a trailing slash does not match exactly.
+ */
+export type RouteTrailingSlashPolicy = 'lenient' | 'strict';
+
+export interface NotFoundRouteSchema {
+  $query?: Dict<RouteQueryDeclaration>;
   $extension?: object;
   $metadata?: object;
 }
 
 export interface RouteSchema extends RootRouteSchema {
+  /**
+   * Match pattern of the segment, or a path pattern with parameters like
+   * `'users/:userId/posts/:postId?'` which expands into a chain of routes.
+   * Path pattern can also be used as the route name instead.
+   */
   $match?: string | RegExp;
+  /**
+   * Alternative match patterns of the segment, e.g., a previous name of this
+   * route. A segment matched by an alias matches this route as if it is
+   * matched by `$match`, while refs built from this route always use
+   * `$match`.
+   */
+  $alias?: string | RegExp | (string | RegExp)[];
+  /**
+   * Whether to replace the URL with the canonical path if this route is
+   * matched by an alias. Only applies if `$match` is a string.
+   */
+  $aliasReplace?: boolean;
+  /**
+   * Codec of the segment matched by a `RegExp` `$match`, the parsed value is
+   * exposed as parameter. If the segment is invalid, this route will not be
+   * matched.
+   */
+  $codec?: RouteSegmentCodec<unknown>;
+}
+
+export interface RouteSegmentCodec<T> {
+  /**
+   * Parse a segment, return `undefined` if the segment is invalid.
+   */
+  parse(segment: string): T | undefined;
+  stringify(value: T): string;
 }
 
 export type RouteSchemaDict = Dict<RouteSchema | boolean>;
+
+export type RouteChildrenLoader<
+  TRouteSchemaDict extends RouteSchemaDict = RouteSchemaDict
+> = () => Promise<TRouteSchemaDict>;
+
+/**
+ * A ref, or a function that returns a ref or `RouteBuilder` with parameters of
+ * the matched route.
+ */
+export type RouteRedirect =
+  | string
+  | ((params: Dict<unknown>) => string | RouteBuilder);
+
 export type GroupToRouteSchemaDictDict = Dict<RouteSchemaDict>;
 
 export function schema<T extends RouteSchema>(schema: T): T {
   return schema;
 }
+
+declare const __pathPatternParamKeys: unique symbol;
+
+export type RoutePathPattern<
+  TParamKey extends string,
+  TOptionalParamKey extends string = never
+> = string & {
+  [__pathPatternParamKeys]: [TParamKey, TOptionalParamKey];
+};
+
+/**
+ * Declare a path pattern with keys of its parameters (and optional ones) for
+ * the types of params, as they cannot be inferred from the pattern string.
+ */
+export function pathPattern<
+  TParamKey extends string = never,
+  TOptionalParamKey extends string = never
+>(pattern: string): RoutePathPattern<TParamKey, TOptionalParamKey> {
+  return pattern as RoutePathPattern<TParamKey, TOptionalParamKey>;
+}
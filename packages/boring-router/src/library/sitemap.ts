@@ -0,0 +1,141 @@
+import {Dict} from 'tslang';
+
+import {RouteInfo, RouteMatch} from './route-match';
+import {Router} from './router';
+
+export type SitemapParamValuesProvider = (
+  params: Dict<unknown>,
+) => unknown[] | Promise<unknown[]>;
+
+export interface SitemapPathsOptions {
+  /**
+   * Providers of segment param values for routes with `RegExp` match
+   * patterns, keyed by the segment key (`key` of `RouteInfo`, e.g., `postId`
+   * of route `users/:userId/posts/:postId`). The provider is called with
+   * params of upper routes, and values are stringified with `$codec` of the
+   * route if any. Routes without a provider are skipped along with their
+   * descendants.
+   */
+  params?: Dict<SitemapParamValuesProvider>;
+  /**
+   * Whether to exclude a route along with its descendants, defaults to routes
+   * with `$metadata` flag `sitemap: false`.
+   */
+  exclude?(route: RouteInfo): boolean;
+}
+
+export interface SitemapOptions extends SitemapPathsOptions {
+  /**
+   * Origin of the URLs, e.g., `https://example.com`.
+   */
+  origin: string;
+}
+
+/**
+ * List concrete paths of the primary routes that can be exactly matched,
+ * excluding `$notFound` routes, routes with `$redirect` and lazy children not
+ * yet loaded.
+ */
+export async function getSitemapPaths(
+  router: Router,
+  {params = {}, exclude = isExcludedBySitemapFlag}: SitemapPathsOptions = {},
+): Promise<string[]> {
+  let [primaryInfo] = router.$routes();
+  let primaryRoute = router._groupToRouteMatchMap.get(undefined)!;
+
+  let paths: string[] = [];
+
+  await collectPaths(primaryRoute, primaryInfo, [], {});
+
+  return paths;
+
+  async function collectPaths(
+    route: RouteMatch,
+    info: RouteInfo,
+    upperSegments: string[],
+    upperParams: Dict<unknown>,
+  ): Promise<void> {
+    if (info.notFound || exclude(info)) {
+      return;
+    }
+
+    let segmentParamsArray: [string, Dict<unknown>][];
+
+    if (info.regExp) {
+      let provider = params[info.key];
+
+      if (!provider) {
+        return;
+      }
+
+      let values = await provider(upperParams);
+
+      let codec = route._codec;
+
+      segmentParamsArray = values.map(value => [
+        encodeURIComponent(codec ? codec.stringify(value) : String(value)),
+        {...upperParams, [info.key]: value},
+      ]);
+    } else {
+      segmentParamsArray = [[info.pattern, upperParams]];
+    }
+
+    let children = info.children;
+    let childRoutes = route._children ?? [];
+
+    let listed =
+      !info.redirect &&
+      (info.exact === true ||
+        (!children.some(child => !child.notFound) && !info.lazy));
+
+    for (let [segment, segmentParams] of segmentParamsArray) {
+      let segments = segment ? [...upperSegments, segment] : upperSegments;
+
+      if (listed) {
+        paths.push(`/${segments.join('/')}`);
+      }
+
+      for (let [index, child] of children.entries()) {
+        await collectPaths(childRoutes[index], child, segments, segmentParams);
+      }
+    }
+  }
+}
+
+/**
+ * Generate `sitemap.xml` content with paths from `getSitemapPaths()`.
+ */
+export async function generateSitemap(
+  router: Router,
+  {origin, ...options}: SitemapOptions,
+): Promise<string> {
+  let paths = await getSitemapPaths(router, options);
+
+  let urls = paths.map(
+    path =>
+      `  <url><loc>${escapeXML(
+        `${origin}${router._history.getHRefByRef(path)}`,
+      )}</loc></url>`,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+function isExcludedBySitemapFlag({metadata}: RouteInfo): boolean {
+  return (metadata as {sitemap?: unknown}).sitemap === false;
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -1,5 +1,5 @@
 import {MemoryHistory, Router} from 'boring-router';
-import {action, configure, observable} from 'mobx';
+import {action, configure, observable, runInAction} from 'mobx';
 
 import {nap} from './@utils';
 
@@ -28,7 +28,7 @@ let primaryRoute = router.$route({
 });
 
 let redirectBeforeEnter = jest.fn(() => {
-  primaryRoute.about.$push();
+  void primaryRoute.about.$push();
 });
 let redirectWillEnter = jest.fn();
 let redirectAfterEnter = jest.fn();
@@ -240,3 +240,503 @@ test('should revert navigation from `persist` to `about` by `persist.$beforeLeav
 
   expect(aboutBeforeEnter).not.toHaveBeenCalled();
 });
+
+test('should redirect by returning ref or `RouteBuilder` in before hooks', async () => {
+  let history = new MemoryHistory();
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      login: true,
+      legacy: true,
+      dashboard: {
+        $query: {
+          from: true,
+        },
+      },
+      loopA: true,
+      loopB: true,
+    },
+  });
+
+  let loginBeforeEnter = jest.fn();
+  let legacyAfterEnter = jest.fn();
+  let dashboardAfterEnter = jest.fn();
+
+  route.login.$beforeEnter(loginBeforeEnter);
+  route.legacy.$beforeEnter(() => '/dashboard?from=legacy');
+  route.legacy.$afterEnter(legacyAfterEnter);
+  route.dashboard.$beforeEnter(next =>
+    next.$params.from === 'legacy' ? undefined : route.login.$(),
+  );
+  route.dashboard.$afterEnter(dashboardAfterEnter);
+
+  await nap();
+
+  await history.push('/dashboard');
+
+  await nap();
+
+  expect(router.$ref()).toBe('/login');
+  expect(history.length).toBe(2);
+  expect(loginBeforeEnter).toHaveBeenCalled();
+  expect(dashboardAfterEnter).not.toHaveBeenCalled();
+
+  await history.push('/legacy');
+
+  await nap();
+
+  expect(router.$ref()).toBe('/dashboard?from=legacy');
+  expect(history.length).toBe(3);
+  expect(legacyAfterEnter).not.toHaveBeenCalled();
+  expect(dashboardAfterEnter).toHaveBeenCalled();
+
+  route.loopA.$beforeEnter(() => route.loopB.$());
+  route.loopB.$beforeEnter(() => route.loopA.$());
+
+  let consoleErrorSpy = jest
+    .spyOn(console, 'error')
+    .mockImplementation(() => {});
+
+  await history.push('/loop-a');
+
+  await nap();
+
+  expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+  expect(router.$ref()).toBe('/dashboard?from=legacy');
+  expect(route.dashboard.$matched).toBe(true);
+
+  consoleErrorSpy.mockRestore();
+});
+
+test('should detect redirect loops within a single navigation', async () => {
+  let history = new MemoryHistory({initialRef: '/loop-a'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      legacy: true,
+      about: true,
+      other: true,
+      loopA: true,
+      loopB: true,
+    },
+  });
+
+  let legacyRedirecting = true;
+  let aboutRedirecting = false;
+
+  route.legacy.$beforeEnter(() => (legacyRedirecting ? '/about' : undefined));
+  route.about.$beforeEnter(() => (aboutRedirecting ? '/legacy' : undefined));
+  route.loopA.$beforeEnter(() => route.loopB.$());
+  route.loopB.$beforeEnter(() => route.loopA.$());
+
+  let errorListener = jest.fn();
+
+  router.$on('error', errorListener);
+
+  let consoleErrorSpy = jest
+    .spyOn(console, 'error')
+    .mockImplementation(() => {});
+
+  await nap();
+
+  expect(errorListener).toHaveBeenCalledTimes(1);
+  expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+  expect(route.loopA.$matched).toBe(false);
+  expect(route.loopB.$matched).toBe(false);
+
+  consoleErrorSpy.mockRestore();
+
+  await history.push('/legacy');
+
+  await nap();
+
+  expect(router.$ref()).toBe('/about');
+
+  await history.push('/other');
+
+  await nap();
+
+  legacyRedirecting = false;
+  aboutRedirecting = true;
+
+  await history.back();
+
+  await nap();
+
+  expect(router.$ref()).toBe('/legacy');
+  expect(errorListener).toHaveBeenCalledTimes(1);
+});
+
+test('should redirect by `$redirect` before any hooks', async () => {
+  let history = new MemoryHistory();
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      legacy: {
+        $redirect: '/settings',
+      },
+      settings: {
+        $redirect: () => router.$scratch().$('/settings/profile'),
+        $children: {
+          profile: true,
+          billing: true,
+        },
+      },
+      user: {
+        $children: {
+          userId: {
+            $match: /\d+/,
+            $redirect: ({userId}) => `/profiles/${userId}`,
+          },
+        },
+      },
+      profiles: {
+        $children: {
+          id: {
+            $match: /\d+/,
+          },
+        },
+      },
+    },
+  });
+
+  let legacyBeforeEnter = jest.fn();
+  let settingsBeforeEnter = jest.fn();
+
+  route.legacy.$beforeEnter(legacyBeforeEnter);
+  route.settings.$beforeEnter(settingsBeforeEnter);
+
+  await nap();
+
+  await history.push('/legacy');
+
+  await nap();
+  await nap();
+
+  expect(router.$ref()).toBe('/settings/profile');
+  expect(history.length).toBe(2);
+  expect(legacyBeforeEnter).not.toHaveBeenCalled();
+  expect(settingsBeforeEnter).toHaveBeenCalledTimes(1);
+  expect(route.settings.profile.$matched).toBe(true);
+
+  await route.settings.billing.$push();
+
+  expect(router.$ref()).toBe('/settings/billing');
+
+  await history.push('/user/123');
+
+  await nap();
+
+  expect(router.$ref()).toBe('/profiles/123');
+  expect(route.profiles.id.$params).toEqual({id: '123'});
+});
+
+test('should resolve navigation results', async () => {
+  let history = new MemoryHistory();
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      about: true,
+      legacy: true,
+      revert: true,
+      slow: true,
+    },
+  });
+
+  route.legacy.$beforeEnter(() => route.about.$());
+  route.revert.$beforeEnter(() => false);
+
+  let resolveSlowBeforeEnter!: () => void;
+
+  route.slow.$beforeEnter(
+    () =>
+      new Promise<void>(resolve => {
+        resolveSlowBeforeEnter = resolve;
+      }),
+  );
+
+  await nap();
+
+  await expect(route.about.$push()).resolves.toEqual({
+    type: 'completed',
+    ref: '/about',
+  });
+
+  await expect(router.$push('/legacy')).resolves.toEqual({
+    type: 'redirected',
+    ref: '/about',
+  });
+
+  await expect(route.revert.$replace()).resolves.toEqual({
+    type: 'reverted',
+    ref: '/about',
+  });
+
+  let slowResultPromise = route.slow.$push();
+
+  await nap();
+
+  let legacyResultPromise = route.legacy.$push();
+
+  resolveSlowBeforeEnter();
+
+  await expect(slowResultPromise).resolves.toEqual({
+    type: 'superseded',
+    ref: '/legacy',
+  });
+
+  await expect(legacyResultPromise).resolves.toEqual({
+    type: 'redirected',
+    ref: '/about',
+  });
+});
+
+test('should emit navigation events', async () => {
+  let history = new MemoryHistory({initialRef: '/account/123'});
+
+  let router = new Router<'sidebar'>(history);
+
+  let route = router.$route({
+    $children: {
+      account: {
+        $exact: true,
+        $children: {
+          id: {
+            $match: /\d+/,
+          },
+        },
+      },
+      about: true,
+      revert: true,
+    },
+  });
+
+  let sidebarRoute = router.$route('sidebar', {
+    $children: {
+      chat: true,
+    },
+  });
+
+  route.revert.$beforeEnter(() => false);
+
+  let events: string[] = [];
+
+  for (let type of [
+    'start',
+    'before',
+    'will',
+    'after',
+    'revert',
+    'complete',
+  ] as const) {
+    router.$on(type, ({ref}) => events.push(`${type} ${ref}`));
+  }
+
+  let completeListener = jest.fn();
+
+  let removeCompleteListener = router.$on('complete', completeListener);
+
+  await nap();
+
+  expect(events).toEqual([
+    'start /account/123',
+    'before /account/123',
+    'will /account/123',
+    'after /account/123',
+    'complete /account/123',
+  ]);
+
+  events = [];
+
+  await router.$push('/about?_sidebar=/chat');
+
+  expect(completeListener).toHaveBeenCalledTimes(2);
+
+  let [[{changes}]] = completeListener.mock.calls.slice(-1);
+
+  expect(changes.get(undefined)).toEqual({
+    entered: [route.about],
+    updated: [route],
+    left: [route.account.id, route.account],
+  });
+  expect(changes.get('sidebar')).toEqual({
+    entered: [sidebarRoute, sidebarRoute.chat],
+    updated: [],
+    left: [],
+  });
+
+  await route.revert.$push();
+
+  expect(events).toEqual([
+    'start /about?_sidebar=/chat',
+    'before /about?_sidebar=/chat',
+    'will /about?_sidebar=/chat',
+    'after /about?_sidebar=/chat',
+    'complete /about?_sidebar=/chat',
+    'start /revert?_sidebar=/chat',
+    'before /revert?_sidebar=/chat',
+    'revert /revert?_sidebar=/chat',
+  ]);
+
+  removeCompleteListener();
+
+  await route.account.$push();
+
+  expect(completeListener).toHaveBeenCalledTimes(2);
+});
+
+test('should handle errors thrown by hooks', async () => {
+  let history = new MemoryHistory();
+
+  let onError = jest.fn();
+
+  let router = new Router(history, {
+    onError,
+    beforeHookErrorPolicy: (_error, {route}) =>
+      route?.$name === 'broken' ? '/error' : false,
+  });
+
+  let primaryRoute = router.$route({
+    $children: {
+      about: true,
+      broken: true,
+      fragile: true,
+      misdirected: {
+        $redirect: () => {
+          throw error;
+        },
+      },
+      error: true,
+    },
+  });
+
+  let error = new Error('broken');
+
+  primaryRoute.broken.$beforeEnter(() => {
+    throw error;
+  });
+  primaryRoute.fragile.$beforeEnter(async () => Promise.reject(error));
+  primaryRoute.about.$afterEnter(() => {
+    throw error;
+  });
+
+  await nap();
+
+  await expect(primaryRoute.about.$push()).resolves.toEqual({
+    type: 'completed',
+    ref: '/about',
+  });
+
+  expect(onError).toHaveBeenLastCalledWith(error, {
+    route: primaryRoute.about,
+    phase: 'afterEnter',
+    ref: '/about',
+  });
+  expect(primaryRoute.about.$error).toBe(error);
+
+  await expect(primaryRoute.broken.$push()).resolves.toEqual({
+    type: 'redirected',
+    ref: '/error',
+  });
+
+  expect(onError).toHaveBeenLastCalledWith(error, {
+    route: primaryRoute.broken,
+    phase: 'beforeEnter',
+    ref: '/broken',
+  });
+  expect(primaryRoute.broken.$error).toBe(error);
+
+  await expect(primaryRoute.fragile.$push()).resolves.toEqual({
+    type: 'reverted',
+    ref: '/error',
+  });
+
+  expect(onError).toHaveBeenCalledTimes(3);
+  expect(primaryRoute.fragile.$error).toBe(error);
+
+  primaryRoute.fragile.$beforeEnter(() => true);
+
+  await primaryRoute.about.$push();
+
+  expect(primaryRoute.about.$error).toBe(error);
+
+  await expect(primaryRoute.misdirected.$push()).resolves.toEqual({
+    type: 'error',
+    ref: '/about',
+    error,
+  });
+
+  await nap();
+
+  expect(onError).toHaveBeenLastCalledWith(error, {
+    route: undefined,
+    phase: 'navigation',
+    ref: '/misdirected',
+  });
+});
+
+test('should handle errors thrown by reactions', async () => {
+  let history = new MemoryHistory();
+
+  let onError = jest.fn();
+
+  let router = new Router(history, {onError});
+
+  let primaryRoute = router.$route({
+    $children: {
+      about: true,
+      contact: true,
+    },
+  });
+
+  let autorunError = new Error('autorun');
+  let reactionError = new Error('reaction');
+
+  let value = observable.box(0);
+
+  primaryRoute.about.$autorun(() => {
+    if (value.get() > 0) {
+      throw autorunError;
+    }
+  });
+
+  primaryRoute.contact.$reaction(
+    () => value.get(),
+    () => {
+      throw reactionError;
+    },
+  );
+
+  await nap();
+
+  await primaryRoute.about.$push();
+
+  runInAction(() => value.set(1));
+
+  expect(onError).toHaveBeenLastCalledWith(autorunError, {
+    route: primaryRoute.about,
+    phase: 'reaction',
+    ref: '/about',
+  });
+  expect(primaryRoute.about.$error).toBe(autorunError);
+
+  await primaryRoute.contact.$push();
+
+  runInAction(() => value.set(2));
+
+  expect(onError).toHaveBeenLastCalledWith(reactionError, {
+    route: primaryRoute.contact,
+    phase: 'reaction',
+    ref: '/contact',
+  });
+  expect(primaryRoute.contact.$error).toBe(reactionError);
+  expect(onError).toHaveBeenCalledTimes(2);
+});
@@ -1,6 +1,14 @@
-import {MemoryHistory, RouteMatch, Router} from 'boring-router';
-import {configure} from 'mobx';
-import {AssertTrue, IsEqual} from 'tslang';
+import {
+  MemoryHistory,
+  RouteMatch,
+  Router,
+  generateSitemap,
+  getSitemapPaths,
+  parallelEncoding,
+  pathPattern,
+} from 'boring-router';
+import {autorun, configure} from 'mobx';
+import {AssertTrue, Dict, IsEqual} from 'tslang';
 
 import {nap} from './@utils';
 
@@ -340,7 +348,7 @@ test('should match parallel `account`, `friends` and `invite`', async () => {
   expect(primaryRoute.account.$matched).toBe(true);
   expect(sidebarRoute.friends.$matched).toBe(false);
 
-  sidebarRoute.friends.$push();
+  void sidebarRoute.friends.$push();
 
   await nap();
 
@@ -350,7 +358,7 @@ test('should match parallel `account`, `friends` and `invite`', async () => {
     '/account?_sidebar=/friends',
   );
 
-  popupRoute.invite.$push();
+  void popupRoute.invite.$push();
 
   await nap();
 
@@ -371,11 +379,11 @@ test('should match `friends.chat` then `friends.transfer`', async () => {
 
   await nap();
 
-  sidebarRoute.friends.$push();
+  void sidebarRoute.friends.$push();
 
   await nap();
 
-  sidebarRoute.friends.chat.$push();
+  void sidebarRoute.friends.chat.$push();
 
   await nap();
 
@@ -385,7 +393,7 @@ test('should match `friends.chat` then `friends.transfer`', async () => {
     '/account/123?_sidebar=/friends/chat',
   );
 
-  sidebarRoute.friends.transfer.$replace();
+  void sidebarRoute.friends.transfer.$replace();
 
   await nap();
 
@@ -402,11 +410,11 @@ test('should switch from `friends.call` to `groups`', async () => {
 
   await nap();
 
-  sidebarRoute.friends.call.$push();
+  void sidebarRoute.friends.call.$push();
 
   await nap();
 
-  sidebarRoute.groups.$push();
+  void sidebarRoute.groups.$push();
 
   await nap();
 
@@ -420,7 +428,7 @@ test('parallel whitelist should take effect', async () => {
 
   await nap();
 
-  primaryRoute.onlySidebar.$push();
+  void primaryRoute.onlySidebar.$push();
 
   await nap();
 
@@ -429,7 +437,7 @@ test('parallel whitelist should take effect', async () => {
   expect(popupRoute.invite.$matched).toBe(false);
   expect(router.$ref()).toBe('/only-sidebar?_sidebar=/friends/call');
 
-  primaryRoute.onlySidebar.onlyChat.$push();
+  void primaryRoute.onlySidebar.onlyChat.$push();
 
   await nap();
 
@@ -438,7 +446,7 @@ test('parallel whitelist should take effect', async () => {
   expect(popupRoute.invite.$matched).toBe(false);
   expect(router.$ref()).toBe('/only-sidebar/only-chat');
 
-  sidebarRoute.groups.chat.$push();
+  void sidebarRoute.groups.chat.$push();
 
   await nap();
 
@@ -447,7 +455,7 @@ test('parallel whitelist should take effect', async () => {
   expect(popupRoute.invite.$matched).toBe(false);
   expect(router.$ref()).toBe('/only-sidebar/only-chat?_sidebar=/groups/chat');
 
-  primaryRoute.onlyFriends.$push();
+  void primaryRoute.onlyFriends.$push();
 
   await nap();
 
@@ -455,19 +463,19 @@ test('parallel whitelist should take effect', async () => {
   expect(sidebarRoute.groups.chat.$matched).toBe(false);
   expect(popupRoute.invite.$matched).toBe(false);
 
-  sidebarRoute.friends.chat.$replace();
+  void sidebarRoute.friends.chat.$replace();
 
   await nap();
 
   expect(sidebarRoute.friends.chat.$matched).toBe(true);
 
-  primaryRoute.onlyFriends.onlyTransfer.$replace();
+  void primaryRoute.onlyFriends.onlyTransfer.$replace();
 
   await nap();
 
   expect(sidebarRoute.friends.chat.$matched).toBe(false);
 
-  sidebarRoute.friends.transfer.$replace();
+  void sidebarRoute.friends.transfer.$replace();
 
   await nap();
 
@@ -476,7 +484,7 @@ test('parallel whitelist should take effect', async () => {
     '/only-friends/only-transfer?_sidebar=/friends/transfer',
   );
 
-  router.$(primaryRoute.onlyPopup).$(popupRoute.invite).$replace();
+  void router.$(primaryRoute.onlyPopup).$(popupRoute.invite).$replace();
 
   await nap();
 
@@ -501,23 +509,23 @@ test("should leave and visit group 'sidebar' and 'popup' again", async () => {
 
   await nap();
 
-  primaryRoute.$rest.$push(undefined, {leaves: ['sidebar']});
+  void primaryRoute.$rest.$push(undefined, {leaves: ['sidebar']});
 
   await nap();
 
   expect(router.$ref()).toBe('/account?_popup=/invite');
 
-  popupRoute.invite.$replace({}, {leave: true});
+  void popupRoute.invite.$replace({}, {leave: true});
 
   await nap();
 
   expect(router.$ref()).toBe('/account');
 
-  popupRoute.invite.$push();
+  void popupRoute.invite.$push();
 
   await nap();
 
-  sidebarRoute.friends.$push();
+  void sidebarRoute.friends.$push();
 
   await nap();
 
@@ -525,15 +533,15 @@ test("should leave and visit group 'sidebar' and 'popup' again", async () => {
 });
 
 test("should leave parallel routes by 'leaves' options when push a new route", async () => {
-  primaryRoute.account.$push();
+  void primaryRoute.account.$push();
 
   await nap();
 
-  sidebarRoute.friends.$push();
+  void sidebarRoute.friends.$push();
 
   await nap();
 
-  popupRoute.invite.$push();
+  void popupRoute.invite.$push();
 
   await nap();
 
@@ -541,7 +549,7 @@ test("should leave parallel routes by 'leaves' options when push a new route", a
   expect(sidebarRoute.friends.$matched).toBe(true);
   expect(popupRoute.invite.$matched).toBe(true);
 
-  primaryRoute.$push({}, {leaves: ['popup']});
+  void primaryRoute.$push({}, {leaves: ['popup']});
 
   await nap();
 
@@ -549,11 +557,11 @@ test("should leave parallel routes by 'leaves' options when push a new route", a
   expect(sidebarRoute.friends.$matched).toBe(true);
   expect(popupRoute.invite.$matched).toBe(false);
 
-  primaryRoute.account.$push({}, {leaves: ['sidebar']});
+  void primaryRoute.account.$push({}, {leaves: ['sidebar']});
 
   await nap();
 
-  popupRoute.invite.$push();
+  void popupRoute.invite.$push();
 
   await nap();
 
@@ -565,7 +573,7 @@ test("should leave parallel routes by 'leaves' options when push a new route", a
 });
 
 test('should leave all parallel routes', async () => {
-  router.$scratch().$(primaryRoute.$rest).$push(undefined);
+  void router.$scratch().$(primaryRoute.$rest).$push(undefined);
 
   await nap();
 
@@ -573,11 +581,11 @@ test('should leave all parallel routes', async () => {
 });
 
 test('should build route with multiple matches', async () => {
-  primaryRoute.account.id.$push({id: '123'});
+  void primaryRoute.account.id.$push({id: '123'});
 
   await nap();
 
-  router
+  void router
     .$scratch()
     .$(primaryRoute.account.$rest, {callback: 'foo'})
     .$(popupRoute.invite)
@@ -589,7 +597,7 @@ test('should build route with multiple matches', async () => {
 });
 
 test('should router push with building part', async () => {
-  router.$push('/account?_sidebar=/friends');
+  void router.$push('/account?_sidebar=/friends');
 
   await nap();
 
@@ -620,7 +628,7 @@ test('should build route with string building part without primary route', async
 });
 
 test('should keep correct queries between navigation', async () => {
-  primaryRoute.queryTest1.$push({
+  void primaryRoute.queryTest1.$push({
     foo: 'a',
     bar: 'b',
     pia: 'c',
@@ -646,7 +654,7 @@ test('should keep correct queries between navigation', async () => {
     '/query-test-2/sub-path?foo=a&bar=b&pia=c&hia=d&yo=e',
   );
 
-  primaryRoute.queryTest2.$push();
+  void primaryRoute.queryTest2.$push();
 
   await nap();
 
@@ -658,3 +666,970 @@ test('should keep correct queries between navigation', async () => {
     hia: 'd',
   });
 });
+
+test('should match `$notFound` routes and track unmatched paths', async () => {
+  let history = new MemoryHistory({initialRef: '/account/123/unknown'});
+
+  let router = new Router<'sidebar'>(history);
+
+  let route = router.$route({
+    $notFound: true,
+    $children: {
+      account: {
+        $children: {
+          id: {
+            $match: /\d+/,
+          },
+        },
+        $notFound: {
+          $metadata: {
+            title: 'account not found',
+          },
+        },
+      },
+      about: true,
+    },
+  });
+
+  let sidebarRoute = router.$route('sidebar', {
+    $children: {
+      groups: true,
+    },
+  });
+
+  let accountNotFoundAfterEnter = jest.fn();
+
+  route.account.$notFound.$afterEnter(accountNotFoundAfterEnter);
+
+  await nap();
+
+  expect(route.account.$matched).toBe(true);
+  expect(route.account.$notFound.$matched).toBe(true);
+  expect(route.account.$notFound.$params.rest).toBe('123/unknown');
+  expect(route.account.$notFound.$metadata).toEqual({
+    title: 'account not found',
+  });
+  expect(route.$notFound.$matched).toBe(false);
+  expect(accountNotFoundAfterEnter).toHaveBeenCalled();
+  expect(router.$unmatched.get(undefined)).toBe('/account/123/unknown');
+
+  await history.push('/account');
+
+  await nap();
+
+  expect(route.account.$matched).toBe(false);
+  expect(route.$notFound.$matched).toBe(true);
+  expect(route.$notFound.$params.rest).toBe('account');
+
+  void route.account.id.$push({id: '456'});
+
+  await nap();
+
+  expect(route.account.id.$matched).toBe(true);
+  expect(route.account.$notFound.$matched).toBe(false);
+  expect(router.$unmatched.size).toBe(0);
+
+  await history.push('/about?_sidebar=/unknown');
+
+  await nap();
+
+  expect(route.about.$matched).toBe(true);
+  expect(sidebarRoute.$matched).toBe(false);
+  expect(router.$unmatched.has(undefined)).toBe(false);
+  expect(router.$unmatched.get('sidebar')).toBe('/unknown');
+
+  (router.$unmatched as Map<string | undefined, string>).clear();
+
+  expect(router.$unmatched.get('sidebar')).toBe('/unknown');
+
+  expect(route.$notFound.$ref({rest: 'foo/bar'})).toBe('/foo/bar');
+});
+
+test('should parse and build refs with hash', async () => {
+  let history = new MemoryHistory({initialRef: '/account?callback=foo#top'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      account: {
+        $query: {
+          callback: true,
+        },
+      },
+      about: true,
+    },
+  });
+
+  await nap();
+
+  expect(route.account.$matched).toBe(true);
+  expect(route.account.$params.callback).toBe('foo');
+  expect(route.account.$hash).toBe('#top');
+  expect(router.$ref()).toBe('/account?callback=foo#top');
+
+  expect(route.about.$ref()).toBe('/about');
+  expect(route.about.$().$hash('section').$ref()).toBe('/about#section');
+  expect(router.$current.$('/about#bottom').$ref()).toBe(
+    '/about?callback=foo#bottom',
+  );
+
+  void router.$scratch().$('/about#section').$push();
+
+  await nap();
+
+  expect(history.ref).toBe('/about#section');
+  expect(route.about.$matched).toBe(true);
+  expect(route.about.$hash).toBe('#section');
+
+  void router.$current.$hash('').$push();
+
+  await nap();
+
+  expect(history.ref).toBe('/about');
+  expect(route.about.$hash).toBe('');
+});
+
+test('should parse and stringify segments with codecs', async () => {
+  let history = new MemoryHistory({initialRef: '/users/123/posts/Hello-World'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      users: {
+        $children: {
+          userId: {
+            $match: RouteMatch.SEGMENT,
+            $exact: true,
+            $codec: {
+              parse(segment: string): number | undefined {
+                return /^\d+$/.test(segment) ? Number(segment) : undefined;
+              },
+              stringify(userId: number): string {
+                return String(userId);
+              },
+            },
+            $children: {
+              posts: {
+                $children: {
+                  postId: {
+                    $match: RouteMatch.SEGMENT,
+                    $codec: {
+                      parse(segment: string): string {
+                        return segment.toLowerCase();
+                      },
+                      stringify(postId: string): string {
+                        return postId.toLowerCase().replace(/\s+/g, '-');
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        $notFound: true,
+      },
+    },
+  });
+
+  await nap();
+
+  let {userId, postId} = route.users.userId.posts.postId.$params;
+
+  // @ts-ignore
+  type __Assertion =
+    | AssertTrue<IsEqual<typeof userId, number>>
+    | AssertTrue<IsEqual<typeof postId, string>>;
+
+  expect(route.users.userId.posts.postId.$matched).toBe(true);
+  expect(userId).toBe(123);
+  expect(postId).toBe('hello-world');
+
+  expect(
+    route.users.userId.posts.postId.$ref({userId: 456, postId: 'Foo Bar'}),
+  ).toBe('/users/456/posts/foo-bar');
+  expect(route.users.userId.posts.postId.$ref({postId: 'foo'})).toBe(
+    '/users/123/posts/foo',
+  );
+
+  void route.users.userId.$push({userId: 789});
+
+  await nap();
+
+  expect(history.ref).toBe('/users/789');
+  expect(route.users.userId.$params.userId).toBe(789);
+
+  await history.push('/users/abc');
+
+  await nap();
+
+  expect(route.users.userId.$matched).toBe(false);
+  expect(route.users.$notFound.$matched).toBe(true);
+});
+
+test('should attach and detach child routes at runtime', async () => {
+  let history = new MemoryHistory({initialRef: '/plugins/foo/123'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      plugins: {
+        $exact: true,
+        $notFound: true,
+      },
+    },
+  });
+
+  let afterLeave = jest.fn();
+
+  await nap();
+
+  expect(route.plugins.$notFound.$matched).toBe(true);
+
+  let {foo} = route.plugins.$attach({
+    foo: {
+      $children: {
+        itemId: {
+          $match: /\d+/,
+        },
+      },
+    },
+  });
+
+  await nap();
+
+  let {itemId} = foo.itemId.$params;
+
+  // @ts-ignore
+  type __Assertion = AssertTrue<IsEqual<typeof itemId, string>>;
+
+  expect(foo.itemId.$matched).toBe(true);
+  expect(itemId).toBe('123');
+  expect(route.plugins.$notFound.$matched).toBe(false);
+  expect(foo.itemId.$ref({itemId: '456'})).toBe('/plugins/foo/456');
+
+  expect(() => route.plugins.$attach({foo: true})).toThrow(
+    'Route "foo" has already been defined under "plugins"',
+  );
+
+  foo.$afterLeave(afterLeave);
+
+  route.plugins.$detach('foo');
+
+  await nap();
+
+  expect(foo.$matched).toBe(false);
+  expect(afterLeave).toHaveBeenCalledTimes(1);
+  expect(route.plugins.$notFound.$matched).toBe(true);
+
+  let {foo: reattachedFoo} = route.plugins.$attach({
+    foo: {
+      $exact: true,
+    },
+  });
+
+  await router.$push('/plugins/foo');
+
+  expect(reattachedFoo).not.toBe(foo);
+  expect(reattachedFoo.$matched).toBe(true);
+});
+
+test('should load lazy children before matching into them', async () => {
+  let history = new MemoryHistory({initialRef: '/settings/profile'});
+
+  let router = new Router(history);
+
+  let load!: () => void;
+
+  let loader = jest.fn(async () => {
+    await new Promise(resolve => (load = resolve));
+
+    return {
+      profile: true,
+      billing: {
+        $match: /\d+/,
+      },
+    };
+  });
+
+  let route = router.$route({
+    $children: {
+      home: true,
+      settings: {
+        $children: loader,
+      },
+    },
+  });
+
+  await nap();
+
+  expect(router.$routing).toBe(true);
+  expect(route.settings.$matched).toBe(false);
+
+  load();
+
+  await nap();
+
+  expect(loader).toHaveBeenCalledTimes(1);
+  expect(route.settings.profile.$matched).toBe(true);
+
+  await history.push('/settings/123');
+
+  await nap();
+
+  let {billing} = route.settings.billing.$params;
+
+  // @ts-ignore
+  type __Assertion = AssertTrue<IsEqual<typeof billing, string>>;
+
+  expect(loader).toHaveBeenCalledTimes(1);
+  expect(billing).toBe('123');
+});
+
+test('should resolve refs without navigating', async () => {
+  await history.push('/account');
+
+  await nap();
+
+  let resolved = await router.$resolve(
+    '/account/123/billings?callback=/redirect&_sidebar=/friends/chat',
+  );
+
+  expect(history.ref).toBe('/account');
+  expect(primaryRoute.account.id.$matched).toBe(false);
+
+  expect(Array.from(resolved.keys())).toEqual([undefined, 'sidebar']);
+
+  let primaryMatches = resolved.get(undefined)!;
+
+  expect(primaryMatches.map(({route}) => route)).toEqual([
+    primaryRoute,
+    primaryRoute.account,
+    primaryRoute.account.id,
+    primaryRoute.account.id.billings,
+  ]);
+  expect(primaryMatches.map(({segment}) => segment)).toEqual([
+    '',
+    'account',
+    '123',
+    'billings',
+  ]);
+  expect(primaryMatches.map(({exact}) => exact)).toEqual([
+    false,
+    false,
+    false,
+    true,
+  ]);
+  expect(primaryMatches[3].params).toEqual({
+    id: '123',
+    callback: '/redirect',
+  });
+
+  expect(resolved.get('sidebar')!.map(({route}) => route)).toEqual([
+    sidebarRoute,
+    sidebarRoute.friends,
+    sidebarRoute.friends.chat,
+  ]);
+
+  let notFoundResolved = await router.$resolve('/boring');
+
+  expect(
+    notFoundResolved.get(undefined)!.map(({route}) => route.$name),
+  ).toEqual(['', 'notFound']);
+});
+
+test('should export route trees and manifest', () => {
+  let history = new MemoryHistory();
+
+  let router = new Router<'sidebar'>(history);
+
+  router.$route({
+    $children: {
+      users: {
+        $exact: true,
+        $query: {
+          tab: true,
+        },
+        $metadata: {
+          title: 'Users',
+        },
+        $children: {
+          userId: {
+            $match: /\d+/,
+          },
+        },
+      },
+      settings: {
+        $children: async () => ({}),
+      },
+      legacy: {
+        $redirect: '/users',
+      },
+      team: {
+        $match: pathPattern<'teamId'>('teams/:teamId'),
+      },
+    },
+    $notFound: true,
+  });
+
+  router.$route('sidebar', {
+    $children: {
+      chat: true,
+    },
+  });
+
+  let [primaryInfo, sidebarInfo] = router.$routes();
+
+  expect(primaryInfo).toMatchObject({
+    name: '',
+    group: undefined,
+    pattern: '',
+    regExp: false,
+  });
+
+  let [
+    usersInfo,
+    settingsInfo,
+    legacyInfo,
+    teamsInfo,
+    notFoundInfo,
+  ] = primaryInfo.children;
+
+  expect(usersInfo).toEqual({
+    name: 'users',
+    key: 'users',
+    group: undefined,
+    pattern: 'users',
+    regExp: false,
+    exact: true,
+    query: ['tab'],
+    metadata: {title: 'Users'},
+    notFound: false,
+    redirect: false,
+    lazy: false,
+    children: [
+      {
+        name: 'userId',
+        key: 'userId',
+        group: undefined,
+        pattern: '\\d+',
+        regExp: true,
+        exact: false,
+        query: [],
+        metadata: {title: 'Users'},
+        notFound: false,
+        redirect: false,
+        lazy: false,
+        children: [],
+      },
+    ],
+  });
+
+  expect(settingsInfo.lazy).toBe(true);
+  expect(legacyInfo.redirect).toBe('/users');
+  expect(teamsInfo).toMatchObject({name: 'team', key: 'team:0'});
+  expect(teamsInfo.children[0]).toMatchObject({name: 'team', key: 'teamId'});
+  expect(notFoundInfo).toMatchObject({name: '$notFound', notFound: true});
+
+  expect(sidebarInfo.group).toBe('sidebar');
+  expect(sidebarInfo.children.map(({name}) => name)).toEqual(['chat']);
+
+  expect(JSON.parse(router.$manifest())).toEqual(
+    JSON.parse(JSON.stringify(router.$routes())),
+  );
+});
+
+test('should enumerate sitemap paths', async () => {
+  let history = new MemoryHistory({prefix: '/app'});
+
+  let router = new Router(history);
+
+  router.$route({
+    $exact: true,
+    $children: {
+      about: true,
+      legacy: {
+        $redirect: '/about',
+      },
+      users: {
+        $exact: true,
+        $redirect: () => '/about',
+        $children: {
+          userId: {
+            $match: /\d+/,
+            $codec: {
+              parse(segment: string): number {
+                return Number(segment);
+              },
+              stringify(id: number): string {
+                return String(id);
+              },
+            },
+            $children: {
+              posts: {
+                $children: {
+                  postId: {
+                    $match: RouteMatch.SEGMENT,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      entry: {
+        $match: pathPattern<'authorId', 'entryId'>(
+          'authors/:authorId/entries/:entryId',
+        ),
+      },
+      admin: {
+        $metadata: {
+          sitemap: false,
+        },
+        $children: {
+          dashboard: true,
+        },
+      },
+      unknown: {
+        $match: /.+/,
+      },
+    },
+    $notFound: true,
+  });
+
+  let postsProvider = jest.fn(async ({userId}: Dict<unknown>) => [
+    `${userId}-a&b/c`,
+  ]);
+
+  let options = {
+    params: {
+      userId: (): number[] => [1, 2],
+      postId: postsProvider,
+      authorId: (): string[] => ['alice'],
+      entryId: ({authorId}: Dict<unknown>): string[] => [`${authorId}-1`],
+    },
+  };
+
+  expect(await getSitemapPaths(router, options)).toEqual([
+    '/',
+    '/about',
+    '/users/1/posts/1-a%26b%2Fc',
+    '/users/2/posts/2-a%26b%2Fc',
+    '/authors/alice/entries/alice-1',
+  ]);
+
+  expect(postsProvider.mock.calls[0][0]).toEqual({userId: 1});
+
+  expect(
+    await generateSitemap(router, {origin: 'https://example.com', ...options}),
+  ).toBe(
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      '  <url><loc>https://example.com/app/</loc></url>',
+      '  <url><loc>https://example.com/app/about</loc></url>',
+      '  <url><loc>https://example.com/app/users/1/posts/1-a%26b%2Fc</loc></url>',
+      '  <url><loc>https://example.com/app/users/2/posts/2-a%26b%2Fc</loc></url>',
+      '  <url><loc>https://example.com/app/authors/alice/entries/alice-1</loc></url>',
+      '</urlset>',
+      '',
+    ].join('\n'),
+  );
+});
+
+test('should match with path policies and redirect to canonical form', async () => {
+  let history = new MemoryHistory({initialRef: '/Users//123/?tab=posts#top'});
+
+  let router = new Router(history, {
+    caseInsensitive: true,
+    collapseSlashes: true,
+    canonicalRedirect: true,
+  });
+
+  let route = router.$route({
+    $children: {
+      users: {
+        $children: {
+          userId: {
+            $match: /\d+/,
+            $query: {
+              tab: true,
+            },
+          },
+        },
+      },
+      strict: {
+        $trailingSlash: 'strict',
+        $caseInsensitive: false,
+      },
+    },
+    $notFound: true,
+  });
+
+  await nap();
+  await nap();
+
+  expect(history.ref).toBe('/users/123?tab=posts#top');
+  expect(route.users.userId.$matched).toBe(true);
+  expect(route.users.userId.$params).toEqual({userId: '123', tab: 'posts'});
+
+  await history.push('/strict/');
+
+  await nap();
+
+  expect(route.strict.$matched).toBe(false);
+  expect(route.$notFound.$matched).toBe(true);
+  expect(history.ref).toBe('/strict/');
+
+  await history.push('/Strict');
+
+  await nap();
+
+  expect(route.strict.$matched).toBe(false);
+
+  await history.push('/strict');
+
+  await nap();
+
+  expect(route.strict.$matched).toBe(true);
+});
+
+test('should expand path patterns into route chains', async () => {
+  let history = new MemoryHistory({initialRef: '/users/1/posts/2'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      post: {
+        $match: pathPattern<'userId', 'postId'>('users/:userId/posts/:postId?'),
+        $query: {
+          tab: true,
+        },
+      },
+      org: {
+        $match: pathPattern<'orgId'>('orgs/:orgId'),
+      },
+      legacy: {
+        $match: 'v1:legacy',
+      },
+    },
+  });
+
+  await nap();
+
+  let {userId, postId} = route.post.$params;
+  let {orgId} = route.org.$params;
+
+  // @ts-ignore
+  type __Assertion =
+    | AssertTrue<IsEqual<typeof userId, string>>
+    | AssertTrue<IsEqual<typeof postId, string | undefined>>
+    | AssertTrue<IsEqual<typeof orgId, string>>;
+
+  expect(route.post.$matched).toBe(true);
+  expect(route.post.$params).toEqual({userId: '1', postId: '2'});
+  expect(route.post.$ref({userId: '3', postId: '4', tab: 'a'})).toBe(
+    '/users/3/posts/4?tab=a',
+  );
+
+  await history.push('/users/5/posts');
+
+  await nap();
+
+  expect(route.post.$matched).toBe(false);
+  expect(route.post.$parent!.$matched).toBe(true);
+  expect(route.post.$parent!.$params).toEqual({userId: '5'});
+
+  await history.push('/orgs/7');
+
+  await nap();
+
+  expect(route.org.$matched).toBe(true);
+  expect(route.org.$params).toEqual({orgId: '7'});
+  expect(route.org.$ref({orgId: '8'})).toBe('/orgs/8');
+
+  await history.push('/v1:legacy');
+
+  await nap();
+
+  expect(route.legacy.$matched).toBe(true);
+
+  expect(() =>
+    router.$route({
+      $children: {
+        invalid: {
+          $match: 'users/:userId?/posts',
+        },
+      },
+    }),
+  ).toThrow('Invalid path pattern');
+
+  expect(() =>
+    router.$route({
+      $children: {
+        'teams/:teamId': true,
+      },
+    }),
+  ).toThrow('Invalid route name');
+});
+
+test('should match aliases and replace with canonical paths', async () => {
+  let history = new MemoryHistory({initialRef: '/workbench/1?tab=a#top'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      workspace: {
+        $alias: ['workbench', /^bench\b/],
+        $aliasReplace: true,
+        $children: {
+          id: {
+            $match: /\d+/,
+          },
+        },
+      },
+      task: {
+        $alias: 'todo',
+      },
+      taskId: {
+        $match: /\d+/,
+        $alias: /^t\d+/,
+      },
+    },
+  });
+
+  await nap();
+  await nap();
+
+  expect(history.ref).toBe('/workspace/1?tab=a#top');
+  expect(route.workspace.id.$matched).toBe(true);
+  expect(route.workspace.id.$params).toEqual({id: '1'});
+
+  await history.push('/bench/2');
+
+  await nap();
+  await nap();
+
+  expect(history.ref).toBe('/workspace/2');
+
+  await history.push('/todo');
+
+  await nap();
+
+  expect(history.ref).toBe('/todo');
+  expect(route.task.$matched).toBe(true);
+  expect(route.task.$ref()).toBe('/task');
+
+  await history.push('/t3');
+
+  await nap();
+
+  expect(route.taskId.$matched).toBe(true);
+  expect(route.taskId.$params).toEqual({taskId: 't3'});
+});
+
+test('should carry parallel group paths with encoding strategies', async () => {
+  let schema = {
+    $children: {
+      workbench: {
+        $query: {
+          mode: true as const,
+        },
+      },
+    },
+  };
+
+  let overlaySchema = {
+    $children: {
+      task: {
+        $children: {
+          taskId: {
+            $match: /\d+/,
+          },
+        },
+      },
+    },
+  };
+
+  let queryHistory = new MemoryHistory({
+    initialRef: '/workbench?~overlay=/task/1&mode=a',
+  });
+
+  let queryRouter = new Router<'overlay'>(queryHistory, {
+    parallelEncoding: parallelEncoding.query({prefix: '~'}),
+  });
+
+  let queryRoute = queryRouter.$route(schema);
+  let queryOverlayRoute = queryRouter.$route('overlay', overlaySchema);
+
+  await nap();
+
+  expect(queryRoute.workbench.$params).toEqual({mode: 'a'});
+  expect(queryOverlayRoute.task.taskId.$params).toEqual({taskId: '1'});
+  expect(
+    queryRouter.$current.$(queryOverlayRoute.task.taskId, {taskId: '2'}).$ref(),
+  ).toBe('/workbench?~overlay=/task/2&mode=a');
+
+  let matrixHistory = new MemoryHistory({
+    initialRef: '/workbench/(overlay:task/1)?mode=a',
+  });
+
+  let matrixRouter = new Router<'overlay'>(matrixHistory, {
+    parallelEncoding: parallelEncoding.matrix(),
+  });
+
+  let matrixRoute = matrixRouter.$route(schema);
+  let matrixOverlayRoute = matrixRouter.$route('overlay', overlaySchema);
+
+  await nap();
+
+  expect(matrixRoute.workbench.$params).toEqual({mode: 'a'});
+  expect(matrixOverlayRoute.task.taskId.$params).toEqual({taskId: '1'});
+  expect(
+    matrixRouter.$current
+      .$(matrixOverlayRoute.task.taskId, {taskId: '2'})
+      .$ref(),
+  ).toBe('/workbench/(overlay:task/2)?mode=a');
+
+  await matrixRouter.$push('/(overlay:task/3)');
+
+  expect(matrixRouter.$ref()).toBe('/workbench/(overlay:task/3)?mode=a');
+
+  await matrixOverlayRoute.$push({}, {leave: true});
+
+  expect(matrixRouter.$ref()).toBe('/workbench?mode=a');
+  expect(matrixOverlayRoute.$matched).toBe(false);
+
+  let hashHistory = new MemoryHistory({
+    initialRef: '/workbench?mode=a#top&overlay=/task/1',
+  });
+
+  let hashRouter = new Router<'overlay'>(hashHistory, {
+    parallelEncoding: parallelEncoding.hash(),
+  });
+
+  let hashRoute = hashRouter.$route(schema);
+  let hashOverlayRoute = hashRouter.$route('overlay', overlaySchema);
+
+  await nap();
+
+  expect(hashRoute.workbench.$hash).toBe('#top');
+  expect(hashOverlayRoute.task.taskId.$params).toEqual({taskId: '1'});
+  expect(
+    hashRouter.$current.$(hashOverlayRoute.task.taskId, {taskId: '2'}).$ref(),
+  ).toBe('/workbench?mode=a#overlay=/task/2');
+  expect(hashRouter.$ref()).toBe('/workbench?mode=a#top&overlay=/task/1');
+  expect(hashRouter.$current.$hash('').$ref()).toBe(
+    '/workbench?mode=a#overlay=/task/1',
+  );
+});
+
+test('should instantiate parallel groups from templates', async () => {
+  let history = new MemoryHistory({
+    initialRef: '/workbench?_panel:1=/task/1&_panel:2=/task/2',
+  });
+
+  let router = new Router(history);
+
+  router.$route({
+    $children: {
+      workbench: true,
+    },
+  });
+
+  let panelTemplate = router.$template('panel', {
+    $children: {
+      task: {
+        $children: {
+          taskId: {
+            $match: /\d+/,
+          },
+        },
+      },
+    },
+  });
+
+  let idsArray: string[][] = [];
+
+  let dispose = autorun(() => idsArray.push(panelTemplate.$ids));
+
+  await nap();
+
+  expect(panelTemplate.$ids).toEqual(['1', '2']);
+
+  let [panel1, panel2] = panelTemplate.$instances;
+
+  expect(panel1.$group).toBe('panel:1');
+  expect(panel1.task.taskId.$params).toEqual({taskId: '1'});
+  expect(panel2.task.taskId.$params).toEqual({taskId: '2'});
+
+  await router.$resolve('/workbench?_panel:7=/task/7');
+  await router.$scratch().$('/workbench?_panel:7=/task/7').$prefetch();
+
+  expect(router.$groups).toEqual(['panel:1', 'panel:2']);
+
+  let panel9 = panelTemplate.$instance('9');
+
+  expect(panelTemplate.$instance('9')).toBe(panel9);
+  expect(router.$current.$(panel9.task.taskId, {taskId: '9'}).$ref()).toBe(
+    '/workbench?_panel:1=/task/1&_panel:2=/task/2&_panel:9=/task/9',
+  );
+  expect(router.$groups).toEqual(['panel:1', 'panel:2']);
+  expect(router.$routes().map(({group}) => group)).toEqual([
+    undefined,
+    'panel:1',
+    'panel:2',
+  ]);
+
+  let panel4 = panelTemplate.$instance('4');
+
+  panel4.task.taskId.$beforeEnter(() => false);
+
+  await expect(
+    router.$current.$(panel4.task.taskId, {taskId: '4'}).$push(),
+  ).resolves.toMatchObject({
+    type: 'reverted',
+  });
+
+  expect(router.$groups).toEqual(['panel:1', 'panel:2']);
+  expect(panelTemplate.$ids).toEqual(['1', '2']);
+
+  let panel3 = panelTemplate.$instance('3');
+
+  let afterEnter = jest.fn();
+
+  panel3.task.taskId.$afterEnter(afterEnter);
+
+  await router.$current.$(panel3.task.taskId, {taskId: '3'}).$push();
+
+  expect(router.$ref()).toBe(
+    '/workbench?_panel:1=/task/1&_panel:2=/task/2&_panel:3=/task/3',
+  );
+  expect(afterEnter).toHaveBeenCalledTimes(1);
+  expect(panel1.task.taskId.$params).toEqual({taskId: '1'});
+
+  await panel1.$push({}, {leave: true});
+
+  expect(panel1.$matched).toBe(false);
+  expect(panelTemplate.$ids).toEqual(['2', '3']);
+  expect(router.$groups).toEqual(['panel:2', 'panel:3']);
+  expect(panelTemplate.$instance('1')).not.toBe(panel1);
+  expect(idsArray[0]).toEqual([]);
+  expect(idsArray[idsArray.length - 1]).toEqual(['2', '3']);
+
+  await router.$push(`${router.$ref()}&_panel:5=/unknown`);
+
+  expect(router.$groups).toEqual(['panel:2', 'panel:3']);
+  expect(panelTemplate.$ids).toEqual(['2', '3']);
+
+  dispose();
+
+  expect(() => router.$template('panel', {})).toThrow(
+    'Group "panel" has already been defined',
+  );
+});
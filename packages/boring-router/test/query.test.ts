@@ -1,5 +1,6 @@
-import {MemoryHistory, Router} from 'boring-router';
+import {MemoryHistory, Router, parallelEncoding, query} from 'boring-router';
 import {configure} from 'mobx';
+import {AssertTrue, IsEqual} from 'tslang';
 
 import {nap} from './@utils';
 
@@ -42,7 +43,7 @@ test('should preserve query with id `true` for sibling routes', async () => {
     expect(route.bar.$params.a).toBe('1');
     expect(route.foo.$ref()).toBe('/foo?a=1');
 
-    route.bar.$push();
+    void route.bar.$push();
 
     await nap();
 
@@ -82,7 +83,7 @@ test('should not preserve query with different ids for sibling routes', async ()
   expect(route.bar.$params.a).toBe(undefined);
   expect(route.foo.$ref()).toBe('/foo?a=1');
 
-  route.bar.$push();
+  void route.bar.$push();
 
   await nap();
 
@@ -130,7 +131,7 @@ test('should preserve query with for inherited routes', async () => {
     d: '4',
   });
 
-  route.foo.bar.$push();
+  void route.foo.bar.$push();
 
   await nap();
 
@@ -183,7 +184,7 @@ test('should work with parallel routes', async () => {
 
   expect(route.foo.$matched).toBe(true);
 
-  sidebarRoute.bar.$push();
+  void sidebarRoute.bar.$push();
 
   await nap();
 
@@ -194,7 +195,7 @@ test('should work with parallel routes', async () => {
 
   expect(router.$ref()).toBe('/foo?_sidebar=/bar&a=1');
 
-  route.yo.$push();
+  void route.yo.$push();
 
   await nap();
 
@@ -204,3 +205,319 @@ test('should work with parallel routes', async () => {
   // defined route (in this case primary route).
   expect(sidebarRoute.bar.$params.a).toBe(undefined);
 });
+
+test('should scope queries to parallel groups', async () => {
+  const history = new MemoryHistory({
+    initialRef: '/list?page=1&_overlay=/task&_overlay.page=2&_panel=/task',
+  });
+
+  const router = new Router<'overlay' | 'panel'>(history);
+
+  const route = router.$route({
+    $children: {
+      list: {
+        $query: {
+          page: true,
+        },
+      },
+    },
+  });
+
+  const overlayRoute = router.$route('overlay', {
+    $children: {
+      task: {
+        $query: {
+          page: query.string({scoped: true}),
+        },
+      },
+    },
+  });
+
+  const panelRoute = router.$route('panel', {
+    $children: {
+      task: {
+        $query: {
+          page: query.number({scoped: true, default: 1}),
+        },
+      },
+    },
+  });
+
+  await nap();
+
+  expect(route.list.$params.page).toBe('1');
+  expect(overlayRoute.task.$params.page).toBe('2');
+  expect(panelRoute.task.$params.page).toBe(1);
+
+  void panelRoute.task.$push({page: 3});
+
+  await nap();
+
+  expect(router.$ref()).toBe(
+    '/list?_overlay=/task&_panel=/task&page=1&_overlay.page=2&_panel.page=3',
+  );
+  expect(route.list.$params.page).toBe('1');
+  expect(overlayRoute.task.$params.page).toBe('2');
+  expect(panelRoute.task.$params.page).toBe(3);
+
+  expect(router.$current.$leave('overlay').$ref()).toBe(
+    '/list?_panel=/task&page=1&_panel.page=3',
+  );
+  expect(
+    router.$current.$('/list?page=2&_overlay.page=4').$leave('overlay').$ref(),
+  ).toBe('/list?_panel=/task&page=2&_panel.page=3');
+});
+
+test('should scope queries with prefixes of parallel encodings', async () => {
+  let schema = {
+    $children: {
+      list: {
+        $query: {
+          page: true as const,
+        },
+      },
+    },
+  };
+
+  let overlaySchema = {
+    $children: {
+      task: {
+        $query: {
+          page: query.string({scoped: true}),
+        },
+      },
+    },
+  };
+
+  const matrixHistory = new MemoryHistory({
+    initialRef: '/list/(overlay:task)?page=1&overlay.page=2',
+  });
+
+  const matrixRouter = new Router<'overlay'>(matrixHistory, {
+    parallelEncoding: parallelEncoding.matrix(),
+  });
+
+  const matrixRoute = matrixRouter.$route(schema);
+  const matrixOverlayRoute = matrixRouter.$route('overlay', overlaySchema);
+
+  await nap();
+
+  expect(matrixRoute.list.$params.page).toBe('1');
+  expect(matrixOverlayRoute.task.$params.page).toBe('2');
+  expect(
+    matrixRouter.$current.$(matrixOverlayRoute.task, {page: '3'}).$ref(),
+  ).toBe('/list/(overlay:task)?page=1&overlay.page=3');
+  expect(matrixRouter.$current.$leave('overlay').$ref()).toBe('/list?page=1');
+
+  const queryHistory = new MemoryHistory({
+    initialRef: '/list?~overlay=/task&page=1&~overlay.page=2',
+  });
+
+  const queryRouter = new Router<'overlay'>(queryHistory, {
+    parallelEncoding: parallelEncoding.query({prefix: '~'}),
+  });
+
+  const queryRoute = queryRouter.$route(schema);
+  const queryOverlayRoute = queryRouter.$route('overlay', overlaySchema);
+
+  await nap();
+
+  expect(queryRoute.list.$params.page).toBe('1');
+  expect(queryOverlayRoute.task.$params.page).toBe('2');
+  expect(queryRouter.$current.$leave('overlay').$ref()).toBe('/list?page=1');
+
+  const hashHistory = new MemoryHistory({
+    initialRef: '/list?page=1&overlay.page=2#overlay=/task',
+  });
+
+  const hashRouter = new Router<'overlay'>(hashHistory, {
+    parallelEncoding: parallelEncoding.hash(),
+  });
+
+  hashRouter.$route(schema);
+
+  const hashOverlayRoute = hashRouter.$route('overlay', overlaySchema);
+
+  await nap();
+
+  expect(hashOverlayRoute.task.$params.page).toBe('2');
+  expect(hashRouter.$current.$(hashOverlayRoute.task, {page: '3'}).$ref()).toBe(
+    '/list?page=1&overlay.page=3#overlay=/task',
+  );
+});
+
+test('should parse and stringify typed queries', async () => {
+  const history = new MemoryHistory({
+    initialRef:
+      '/list?page=2&size=abc&archived=true&sort=name&since=2020-07-01T00:00:00.000Z&filter={"tag":"a"}',
+  });
+
+  const router = new Router(history);
+
+  const route = router.$route({
+    $children: {
+      list: {
+        $query: {
+          page: query.number({default: 1}),
+          size: query.number(),
+          archived: query.boolean(),
+          sort: query.enum(['name', 'date']),
+          since: query.date(),
+          filter: query.json<{tag: string}>(),
+          keyword: true,
+        },
+      },
+    },
+  });
+
+  await nap();
+
+  let {page, size, archived, sort, since, filter, keyword} = route.list.$params;
+
+  // @ts-ignore
+  type __Assertion =
+    | AssertTrue<IsEqual<typeof page, number>>
+    | AssertTrue<IsEqual<typeof size, number | undefined>>
+    | AssertTrue<IsEqual<typeof archived, boolean | undefined>>
+    | AssertTrue<IsEqual<typeof sort, 'name' | 'date' | undefined>>
+    | AssertTrue<IsEqual<typeof since, Date | undefined>>
+    | AssertTrue<IsEqual<typeof filter, {tag: string} | undefined>>
+    | AssertTrue<IsEqual<typeof keyword, string | undefined>>;
+
+  expect(page).toBe(2);
+  expect(size).toBe(undefined);
+  expect(archived).toBe(true);
+  expect(sort).toBe('name');
+  expect(since).toEqual(new Date('2020-07-01T00:00:00.000Z'));
+  expect(filter).toEqual({tag: 'a'});
+  expect(keyword).toBe(undefined);
+
+  void route.list.$push({
+    page: 3,
+    size: 20,
+    archived: false,
+    sort: 'date',
+    since: undefined,
+    filter: {tag: 'b'},
+  });
+
+  await nap();
+
+  expect(route.list.$params).toEqual({
+    page: 3,
+    size: 20,
+    archived: false,
+    sort: 'date',
+    filter: {tag: 'b'},
+  });
+
+  void route.list.$push({page: undefined, sort: 'invalid' as 'name'});
+
+  await nap();
+
+  expect(route.list.$params.page).toBe(1);
+  expect(route.list.$params.sort).toBe(undefined);
+});
+
+test('should omit default query values from refs', async () => {
+  const history = new MemoryHistory({initialRef: '/list?page=1&view=grid'});
+
+  const router = new Router(history);
+
+  const route = router.$route({
+    $children: {
+      list: {
+        $query: {
+          page: query.number({default: 1}),
+          view: query.string({default: 'list'}),
+          keyword: true,
+        },
+      },
+    },
+  });
+
+  await nap();
+
+  let {view} = route.list.$params;
+
+  // @ts-ignore
+  type __Assertion = AssertTrue<IsEqual<typeof view, string>>;
+
+  expect(route.list.$params).toEqual({page: 1, view: 'grid'});
+  expect(router.$current.$ref()).toBe('/list?view=grid');
+  expect(route.list.$ref({view: 'list'})).toBe('/list');
+
+  void route.list.$push({page: 1, keyword: 'a'});
+
+  await nap();
+
+  expect(history.ref).toBe('/list?view=grid&keyword=a');
+
+  void route.list.$push({page: 2, view: 'list'});
+
+  await nap();
+
+  expect(history.ref).toBe('/list?keyword=a&page=2');
+  expect(route.list.$params).toEqual({page: 2, view: 'list', keyword: 'a'});
+});
+
+test('should handle repeated queries as arrays', async () => {
+  const history = new MemoryHistory({
+    initialRef: '/list?tag=a&tag=b&id=1&id=x&id=3&keyword=foo&keyword=bar',
+  });
+
+  const router = new Router(history);
+
+  const route = router.$route({
+    $children: {
+      list: {
+        $query: {
+          tag: query.array(),
+          id: query.array(query.number()),
+          keyword: true,
+        },
+      },
+      detail: {
+        $query: {
+          tag: query.array(),
+        },
+      },
+    },
+  });
+
+  await nap();
+
+  let {tag, id, keyword} = route.list.$params;
+
+  // @ts-ignore
+  type __Assertion =
+    | AssertTrue<IsEqual<typeof tag, string[]>>
+    | AssertTrue<IsEqual<typeof id, number[]>>
+    | AssertTrue<IsEqual<typeof keyword, string | undefined>>;
+
+  expect(tag).toEqual(['a', 'b']);
+  expect(id).toEqual([1, 3]);
+  expect(keyword).toBe('bar');
+
+  expect(route.detail.$ref()).toBe('/detail?tag=a&tag=b');
+  expect(route.list.$ref({tag: ['c'], id: [], keyword: undefined})).toBe(
+    '/list?tag=c',
+  );
+
+  void route.list.$push({tag: ['c', 'd'], id: [4]});
+
+  await nap();
+
+  expect(router.$ref()).toBe('/list?tag=c&tag=d&id=4&keyword=foo&keyword=bar');
+  expect(route.list.$params).toEqual({
+    tag: ['c', 'd'],
+    id: [4],
+    keyword: 'bar',
+  });
+
+  void route.list.$push({tag: undefined, id: undefined});
+
+  await nap();
+
+  expect(route.list.$params).toEqual({tag: [], id: [], keyword: 'bar'});
+});
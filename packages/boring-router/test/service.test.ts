@@ -5,7 +5,8 @@ import {
   RouteUpdateCallbackData,
   Router,
 } from 'boring-router';
-import {computed, configure, observable} from 'mobx';
+import {computed, configure, observable, runInAction} from 'mobx';
+import {AssertTrue, IsEqual} from 'tslang';
 
 import {nap} from './@utils';
 
@@ -172,7 +173,7 @@ test('should navigate from `default` to `account` and triggers `$beforeUpdate`',
 });
 
 test('should navigate from `account` to `default`', async () => {
-  primaryRoute.$push();
+  void primaryRoute.$push();
 
   await nap();
 
@@ -184,3 +185,280 @@ test('should navigate from `account` to `default`', async () => {
   expect(willLeave).toHaveBeenCalled();
   expect(afterLeave).toHaveBeenCalled();
 });
+
+test('should dispose router with reactions and services', async () => {
+  let history = new MemoryHistory({initialRef: '/about'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      about: true,
+      settings: true,
+    },
+  });
+
+  let value = observable.box(0);
+
+  let aboutReaction = jest.fn();
+  let aboutServiceDispose = jest.fn();
+  let settingsBeforeEnter = jest.fn();
+
+  route.about.$reaction(() => value.get(), aboutReaction);
+  route.about.$service(() => ({dispose: aboutServiceDispose}));
+  route.settings.$beforeEnter(settingsBeforeEnter);
+
+  await nap();
+
+  runInAction(() => value.set(1));
+
+  expect(aboutReaction).toHaveBeenCalledTimes(1);
+
+  router.$dispose();
+
+  expect(router.$disposed).toBe(true);
+  expect(aboutServiceDispose).toHaveBeenCalledTimes(1);
+
+  runInAction(() => value.set(2));
+
+  expect(aboutReaction).toHaveBeenCalledTimes(1);
+
+  await expect(route.settings.$push()).rejects.toThrow(
+    'Router has been disposed',
+  );
+
+  await history.push('/settings');
+
+  await nap();
+
+  expect(settingsBeforeEnter).not.toHaveBeenCalled();
+  expect(route.about.$matched).toBe(true);
+});
+
+test('should load route data with cache and cancellation', async () => {
+  let history = new MemoryHistory({initialRef: '/users/1'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      users: {
+        $children: {
+          userId: {
+            $match: RouteMatch.SEGMENT,
+          },
+        },
+      },
+    },
+  });
+
+  let pendingLoadings: {
+    userId: string;
+    cancelled: () => boolean;
+    resolve: (name: string) => void;
+  }[] = [];
+
+  let onCancel = jest.fn();
+
+  let userRoute = route.users.userId.$loader(
+    ({userId}, context) => {
+      context.onCancel(onCancel);
+
+      return new Promise<string>(resolve =>
+        pendingLoadings.push({
+          userId,
+          cancelled: () => context.cancelled,
+          resolve,
+        }),
+      );
+    },
+    {ttl: 60000},
+  );
+
+  await nap();
+
+  expect(userRoute.$data.loading).toBe(true);
+  expect(userRoute.$matched).toBe(false);
+
+  pendingLoadings[0].resolve('user 1');
+
+  await nap();
+
+  let value: string | undefined = userRoute.$data.value;
+
+  expect(value).toBe('user 1');
+  expect(userRoute.$data.loading).toBe(false);
+  expect(userRoute.$params.userId).toBe('1');
+
+  void history.push('/users/2');
+
+  await nap();
+
+  expect(pendingLoadings[1].userId).toBe('2');
+
+  void history.push('/users/1');
+
+  await nap();
+
+  expect(pendingLoadings[1].cancelled()).toBe(true);
+  expect(onCancel).toHaveBeenCalledTimes(1);
+
+  await nap();
+
+  // Served from cache.
+  expect(pendingLoadings.length).toBe(2);
+  expect(userRoute.$params.userId).toBe('1');
+  expect(userRoute.$data.value).toBe('user 1');
+  expect(userRoute.$data.loading).toBe(false);
+});
+
+test('should prefetch services, data and lazy children', async () => {
+  let history = new MemoryHistory();
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      users: {
+        $children: {
+          userId: {
+            $match: RouteMatch.SEGMENT,
+            $exact: true,
+            $children: async () => ({
+              posts: true,
+            }),
+          },
+        },
+      },
+    },
+  });
+
+  let serviceFactory = jest.fn(() => ({}));
+  let loader = jest.fn(async ({userId}: {userId: string}) => `user ${userId}`);
+
+  route.users.userId.$service(serviceFactory);
+
+  let userRoute = route.users.userId.$loader(loader, {ttl: 60000});
+
+  await nap();
+
+  await userRoute.$prefetch({userId: '1'});
+
+  expect(history.ref).toBe('/');
+  expect(serviceFactory).toHaveBeenCalledTimes(1);
+  expect(loader).toHaveBeenCalledTimes(1);
+  expect(loader.mock.calls[0][0]).toEqual({userId: '1'});
+  expect(userRoute.$data.value).toBeUndefined();
+  expect(userRoute.posts).toBeDefined();
+
+  await userRoute.$push({userId: '1'});
+
+  expect(serviceFactory).toHaveBeenCalledTimes(1);
+  expect(loader).toHaveBeenCalledTimes(1);
+  expect(userRoute.$data.value).toBe('user 1');
+});
+
+test('should report errors of prefetched data as data errors', async () => {
+  let history = new MemoryHistory();
+
+  let onError = jest.fn();
+
+  let router = new Router(history, {onError});
+
+  let route = router.$route({
+    $children: {
+      users: {
+        $children: {
+          userId: {
+            $match: RouteMatch.SEGMENT,
+          },
+        },
+      },
+    },
+  });
+
+  let error = new Error('unavailable');
+
+  let userRoute = route.users.userId.$loader(
+    async (): Promise<string> => {
+      throw error;
+    },
+    {ttl: 60000},
+  );
+
+  await nap();
+
+  await userRoute.$prefetch({userId: '1'});
+
+  expect(onError).toHaveBeenCalledTimes(1);
+  expect(onError).toHaveBeenCalledWith(error, {
+    route: userRoute,
+    phase: 'data',
+    ref: '/',
+  });
+  expect(userRoute.$data.error).toBeUndefined();
+});
+
+test('should evict expired route data from cache', async () => {
+  let history = new MemoryHistory({initialRef: '/users/1'});
+
+  let router = new Router(history);
+
+  let route = router.$route({
+    $children: {
+      users: {
+        $children: {
+          userId: {
+            $match: RouteMatch.SEGMENT,
+          },
+        },
+      },
+    },
+  });
+
+  let now = 0;
+
+  let dateNowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+  let loader = jest.fn(async ({userId}: {userId: string}) => `user ${userId}`);
+
+  let userRoute = route.users.userId.$loader(loader, {
+    ttl: 1000,
+    staleWhileRevalidate: 1000,
+  });
+
+  // @ts-ignore
+  type __Assertion =
+    // line-break
+    AssertTrue<IsEqual<typeof userRoute.$data.value, string | undefined>>;
+
+  await nap();
+
+  expect(userRoute.$data.value).toBe('user 1');
+
+  now = 500;
+
+  await userRoute.$push({userId: '2'});
+
+  now = 900;
+
+  await userRoute.$push({userId: '1'});
+
+  expect(loader).toHaveBeenCalledTimes(2);
+  expect(userRoute.$data.value).toBe('user 1');
+
+  now = 2500;
+
+  await userRoute.$push({userId: '2'});
+
+  expect(loader).toHaveBeenCalledTimes(3);
+  expect(loader.mock.calls[2][0]).toEqual({userId: '2'});
+
+  await userRoute.$push({userId: '1'});
+
+  expect(loader).toHaveBeenCalledTimes(4);
+  expect(loader.mock.calls[3][0]).toEqual({userId: '1'});
+  expect(userRoute.$data.value).toBe('user 1');
+
+  dateNowSpy.mockRestore();
+});
@@ -124,13 +124,13 @@ route.redirect.target.$beforeEnter(next => {
     // recommended to use `$next` most of the cases inside a `before/will` x
     // `enter/update`.
     case 'account':
-      route.$next.account.$replace();
+      void route.$next.account.$replace();
       break;
     case 'about':
-      route.$next.about.$replace();
+      void route.$next.about.$replace();
       break;
     default:
-      route.$next.$replace();
+      void route.$next.$replace();
       break;
   }
 });